@@ -0,0 +1,132 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { QueryCacheConfig } from "../types/index.js";
+import { QueryCache } from "./query-cache.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn() },
+}));
+
+const ANSWER = { text: "The answer", citations: [] };
+
+function key(query: string, storeName = "fileSearchStores/docs") {
+  return { storeName, query, model: "gemini-2.5-flash" };
+}
+
+function config(overrides: Partial<QueryCacheConfig> = {}): QueryCacheConfig {
+  return { enabled: true, ttlMs: 60_000, maxEntries: 10, directory: "", ...overrides };
+}
+
+describe("QueryCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns cached answers for queries differing only in case and spacing", async () => {
+    const cache = new QueryCache(config());
+    await cache.set(key("What is  RAG?"), ANSWER, 0);
+
+    expect(await cache.get(key("  what is rag? "))).toMatchObject(ANSWER);
+    expect(await cache.get(key("what is rag"))).toBeUndefined();
+  });
+
+  it("keys entries by store, model and metadata filter", async () => {
+    const cache = new QueryCache(config());
+    await cache.set({ ...key("q"), metadataFilter: 'lang = "en"' }, ANSWER, 0);
+
+    expect(await cache.get({ ...key("q"), metadataFilter: 'lang = "en"' })).toBeDefined();
+    expect(await cache.get(key("q"))).toBeUndefined();
+    expect(await cache.get({ ...key("q"), model: "gemini-2.5-pro" })).toBeUndefined();
+    expect(await cache.get(key("q", "fileSearchStores/other"))).toBeUndefined();
+  });
+
+  it("expires entries after the TTL", async () => {
+    vi.useFakeTimers();
+    const cache = new QueryCache(config({ ttlMs: 1000 }));
+    await cache.set(key("q"), ANSWER, 0);
+
+    vi.advanceTimersByTime(999);
+    expect(await cache.get(key("q"))).toBeDefined();
+
+    vi.advanceTimersByTime(2);
+    expect(await cache.get(key("q"))).toBeUndefined();
+  });
+
+  it("evicts the least recently used entry beyond the capacity", async () => {
+    const cache = new QueryCache(config({ maxEntries: 2 }));
+    await cache.set(key("a"), ANSWER, 0);
+    await cache.set(key("b"), ANSWER, 0);
+    await cache.get(key("a"));
+    await cache.set(key("c"), ANSWER, 0);
+
+    expect(await cache.get(key("a"))).toBeDefined();
+    expect(await cache.get(key("b"))).toBeUndefined();
+    expect(await cache.get(key("c"))).toBeDefined();
+  });
+
+  it("invalidates only the entries of one store", async () => {
+    const cache = new QueryCache(config());
+    await cache.set(key("q"), ANSWER, 0);
+    await cache.set(key("q", "fileSearchStores/other"), ANSWER, 0);
+
+    await cache.invalidate("fileSearchStores/docs");
+
+    expect(await cache.get(key("q"))).toBeUndefined();
+    expect(await cache.get(key("q", "fileSearchStores/other"))).toBeDefined();
+  });
+
+  it("does not cache answers to queries that started before an invalidation", async () => {
+    const cache = new QueryCache(config());
+    const generation = cache.generation("fileSearchStores/docs");
+
+    await cache.invalidate("fileSearchStores/docs");
+    await cache.set(key("q"), ANSWER, generation);
+    expect(await cache.get(key("q"))).toBeUndefined();
+
+    await cache.set(key("q"), ANSWER, cache.generation("fileSearchStores/docs"));
+    expect(await cache.get(key("q"))).toBeDefined();
+  });
+
+  describe("with a cache directory", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "query-cache-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("serves entries written by a previous instance", async () => {
+      await new QueryCache(config({ directory })).set(key("q"), ANSWER, 0);
+
+      const restarted = new QueryCache(config({ directory }));
+
+      expect(await restarted.get(key("q"))).toMatchObject(ANSWER);
+    });
+
+    it("removes an entry whose write raced with an invalidation", async () => {
+      const cache = new QueryCache(config({ directory }));
+
+      const write = cache.set(key("q"), ANSWER, 0);
+      const invalidation = cache.invalidate("fileSearchStores/docs");
+      await Promise.all([write, invalidation]);
+
+      expect(await new QueryCache(config({ directory })).get(key("q"))).toBeUndefined();
+    });
+
+    it("removes the store's entries from disk on invalidation", async () => {
+      const cache = new QueryCache(config({ directory }));
+      await cache.set(key("q"), ANSWER, 0);
+      await cache.set(key("q", "fileSearchStores/other"), ANSWER, 0);
+
+      await cache.invalidate("fileSearchStores/docs");
+
+      expect(await readdir(directory)).toHaveLength(1);
+      expect(await new QueryCache(config({ directory })).get(key("q"))).toBeUndefined();
+    });
+  });
+});
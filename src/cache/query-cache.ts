@@ -0,0 +1,220 @@
+/**
+ * Cache of RAG query answers
+ *
+ * Answers are keyed by store, normalized query, model and metadata filter,
+ * and kept in an in-memory LRU with a TTL. With a cache directory
+ * configured, entries are also written to disk and survive restarts.
+ * All entries of a store are dropped when an upload or delete touches it,
+ * and answers to queries that were running at that moment are not stored.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, rm, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Citation, QueryCacheConfig } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+type QueryKey = {
+  storeName: string;
+  query: string;
+  model: string;
+  metadataFilter?: string | undefined;
+};
+
+type CachedAnswer = {
+  text: string;
+  citations: Citation[];
+};
+
+type CacheEntry = {
+  storeName: string;
+  answer: CachedAnswer;
+  cachedAt: number;
+};
+
+/**
+ * Normalize a query so trivially different phrasings share an entry
+ */
+function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+  // Bumped by every invalidation of a store
+  private generations = new Map<string, number>();
+
+  constructor(private readonly config: QueryCacheConfig) {}
+
+  /**
+   * Look up a cached answer
+   * @returns The answer and when it was cached, or undefined on a miss
+   */
+  async get(
+    key: QueryKey,
+  ): Promise<(CachedAnswer & { cachedAt: Date }) | undefined> {
+    const id = this.entryId(key);
+    const entry = this.entries.get(id) ?? (await this.readFromDisk(key.storeName, id));
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() - entry.cachedAt > this.config.ttlMs) {
+      this.entries.delete(id);
+      void this.removeFromDisk(key.storeName, id);
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+
+    return { ...entry.answer, cachedAt: new Date(entry.cachedAt) };
+  }
+
+  /**
+   * Current generation of a store
+   * Record it when a query starts and pass it to set, so an answer computed
+   * before the store changed is not cached
+   */
+  generation(storeName: string): number {
+    return this.generations.get(storeName) ?? 0;
+  }
+
+  /**
+   * Store an answer, unless the store was invalidated since the query started
+   * @param generation - Generation of the store when the query started
+   */
+  async set(key: QueryKey, answer: CachedAnswer, generation: number): Promise<void> {
+    if (this.generation(key.storeName) !== generation) {
+      logger.debug(`Not caching answer for ${key.storeName}: store changed during the query`);
+      return;
+    }
+
+    const id = this.entryId(key);
+    const entry: CacheEntry = {
+      storeName: key.storeName,
+      answer,
+      cachedAt: Date.now(),
+    };
+
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.config.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+
+    await this.writeToDisk(id, entry);
+
+    // An invalidation during the write may have cleared the directory before the file landed
+    if (this.generation(key.storeName) !== generation) {
+      await this.removeFromDisk(key.storeName, id);
+    }
+  }
+
+  /**
+   * Drop every cached answer for a store
+   */
+  async invalidate(storeName: string): Promise<void> {
+    this.generations.set(storeName, this.generation(storeName) + 1);
+
+    let removed = 0;
+    for (const [id, entry] of this.entries) {
+      if (entry.storeName === storeName) {
+        this.entries.delete(id);
+        removed++;
+      }
+    }
+    logger.debug(`Query cache invalidated for ${storeName} (${String(removed)} in memory)`);
+
+    const directory = this.storeDirectory(storeName);
+    if (directory) {
+      try {
+        await rm(directory, { recursive: true, force: true });
+      } catch (error) {
+        logger.warn(`Failed to clear query cache directory for ${storeName}`, { error });
+      }
+    }
+  }
+
+  private entryId(key: QueryKey): string {
+    return hash(
+      JSON.stringify([
+        key.storeName,
+        normalizeQuery(key.query),
+        key.model,
+        key.metadataFilter ?? null,
+      ]),
+    );
+  }
+
+  /**
+   * Disk layout: <directory>/<hash of store name>/<entry id>.json
+   */
+  private storeDirectory(storeName: string): string | undefined {
+    return this.config.directory
+      ? join(this.config.directory, hash(storeName).slice(0, 16))
+      : undefined;
+  }
+
+  private async readFromDisk(
+    storeName: string,
+    id: string,
+  ): Promise<CacheEntry | undefined> {
+    const directory = this.storeDirectory(storeName);
+    if (!directory) {
+      return undefined;
+    }
+
+    try {
+      const entry = JSON.parse(
+        await readFile(join(directory, `${id}.json`), "utf8"),
+      ) as CacheEntry;
+      return entry.storeName === storeName ? entry : undefined;
+    } catch (_error) {
+      // Missing or unreadable entries are misses
+      return undefined;
+    }
+  }
+
+  /**
+   * Write an entry to disk, replacing the file atomically
+   * Failures are logged; the cache never fails a query
+   */
+  private async writeToDisk(id: string, entry: CacheEntry): Promise<void> {
+    const directory = this.storeDirectory(entry.storeName);
+    if (!directory) {
+      return;
+    }
+
+    const file = join(directory, `${id}.json`);
+    const temporary = `${file}.${String(process.pid)}.tmp`;
+    try {
+      await mkdir(directory, { recursive: true });
+      await writeFile(temporary, JSON.stringify(entry), "utf8");
+      await rename(temporary, file);
+    } catch (error) {
+      logger.warn("Failed to write query cache entry", { error });
+    }
+  }
+
+  private async removeFromDisk(storeName: string, id: string): Promise<void> {
+    const directory = this.storeDirectory(storeName);
+    if (!directory) {
+      return;
+    }
+
+    try {
+      await unlink(join(directory, `${id}.json`));
+    } catch (_error) {
+      // Already gone
+    }
+  }
+}
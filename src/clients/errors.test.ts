@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  GeminiApiError,
+  NotFoundError,
+  OperationCancelledError,
+  QuotaExceededError,
+  fromOperationError,
+  toGeminiError,
+} from "./errors.js";
+
+function apiError(status: number, message = "request failed"): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function codeOf(error: unknown): { code: string; retryable: boolean } {
+  expect(error).toBeInstanceOf(GeminiApiError);
+  const { code, retryable } = error as GeminiApiError;
+  return { code, retryable };
+}
+
+describe("toGeminiError", () => {
+  it.each([
+    [400, "invalid_argument", false],
+    [401, "auth_failed", false],
+    [403, "auth_failed", false],
+    [404, "not_found", false],
+    [408, "timeout", true],
+    [409, "invalid_argument", false],
+    [429, "quota_exceeded", true],
+    [500, "unavailable", true],
+    [503, "unavailable", true],
+    [504, "timeout", true],
+  ])("maps HTTP status %i to %s", (status, code, retryable) => {
+    const error = toGeminiError(apiError(status, "boom"));
+
+    expect(codeOf(error)).toEqual({ code, retryable });
+    expect((error as GeminiApiError).status).toBe(status);
+    expect((error as GeminiApiError).message).toBe("boom");
+  });
+
+  it("reads the retry delay requested by a quota error", () => {
+    const error = toGeminiError(
+      apiError(429, '{"error": {"details": [{"retryDelay": "12.5s"}]}}'),
+    );
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).retryAfterMs).toBe(12500);
+    expect((toGeminiError(apiError(429)) as QuotaExceededError).retryAfterMs).toBeUndefined();
+  });
+
+  it("maps aborted requests to OperationCancelledError", () => {
+    const abort = new DOMException("This operation was aborted", "AbortError");
+
+    expect(toGeminiError(abort)).toBeInstanceOf(OperationCancelledError);
+    expect(
+      toGeminiError(new Error("exception AbortError: This operation was aborted sending request")),
+    ).toBeInstanceOf(OperationCancelledError);
+  });
+
+  it("maps fetch failures wrapped by the SDK", () => {
+    const timeout = toGeminiError(
+      new Error("exception TimeoutError: The operation timed out sending request"),
+    );
+    const network = toGeminiError(new Error("exception TypeError: fetch failed sending request"));
+
+    expect(codeOf(timeout)).toEqual({ code: "timeout", retryable: true });
+    expect((timeout as Error).message).toBe(
+      "Gemini API request timed out: The operation timed out",
+    );
+    expect(codeOf(network)).toEqual({ code: "unavailable", retryable: true });
+  });
+
+  it("returns other errors and typed errors unchanged", () => {
+    const plain = new Error("something else");
+    const typed = new NotFoundError("gone", 404);
+    const cancelled = new OperationCancelledError();
+
+    expect(toGeminiError(plain)).toBe(plain);
+    expect(toGeminiError(apiError(302))).toBeInstanceOf(Error);
+    expect(toGeminiError(apiError(302))).not.toBeInstanceOf(GeminiApiError);
+    expect(toGeminiError(typed)).toBe(typed);
+    expect(toGeminiError(cancelled)).toBe(cancelled);
+    expect(toGeminiError("not an error")).toBe("not an error");
+  });
+});
+
+describe("fromOperationError", () => {
+  it("maps google.rpc codes to typed errors", () => {
+    expect(codeOf(fromOperationError({ code: 8, message: "quota" }))).toEqual({
+      code: "quota_exceeded",
+      retryable: true,
+    });
+    expect(codeOf(fromOperationError({ code: 14, message: "down" }))).toEqual({
+      code: "unavailable",
+      retryable: true,
+    });
+    expect(codeOf(fromOperationError({ code: 3, message: "bad" })).code).toBe(
+      "invalid_argument",
+    );
+  });
+
+  it("falls back to a plain error for unknown codes", () => {
+    const error = fromOperationError({ code: 2 });
+
+    expect(error).not.toBeInstanceOf(GeminiApiError);
+    expect(error.message).toBe('{"code":2}');
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Error types raised by the Gemini client and request limits, and the
+ * mapping of Gemini API failures onto them
+ */
+
+/**
+ * Raised when a long-running operation does not finish before the polling deadline
+ * The operation may still complete on the server side
+ */
+export class OperationTimeoutError extends Error {
+  override readonly name = "OperationTimeoutError";
+
+  constructor(
+    readonly operationName: string,
+    readonly timeoutMs: number,
+  ) {
+    super(
+      `Operation ${operationName} did not complete within ${String(Math.round(timeoutMs / 1000))}s. It may still finish on the server; check it later using the operation name.`,
+    );
+  }
+}
+
+/**
+ * Raised when a Gemini API call or the wait for a long-running operation is
+ * cancelled by the caller
+ * Cancelling only stops polling; the operation itself keeps running on the server
+ */
+export class OperationCancelledError extends Error {
+  override readonly name = "OperationCancelledError";
+
+  constructor(readonly operationName?: string) {
+    super(
+      operationName !== undefined
+        ? `Stopped waiting for operation ${operationName} because the request was cancelled. The operation may still finish on the server; check it later using the operation name.`
+        : "The Gemini API request was cancelled. Check whether it took effect before calling again.",
+    );
+  }
+}
+
+/**
+ * Raised when a request exceeds a configured rate limit
+ * The request was not sent; it may be retried after retryAfterMs
+ */
+export class RateLimitError extends Error {
+  override readonly name = "RateLimitError";
+
+  constructor(
+    readonly limit: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(
+      `Rate limit exceeded for ${limit}. Retry after ${String(Math.ceil(retryAfterMs / 1000))}s.`,
+    );
+  }
+}
+
+/**
+ * Machine-readable error codes reported to MCP clients
+ */
+type GeminiErrorCode =
+  | "quota_exceeded"
+  | "not_found"
+  | "invalid_argument"
+  | "auth_failed"
+  | "timeout"
+  | "unavailable";
+
+/**
+ * Base class for failed Gemini API calls
+ * Carries the HTTP status (if any) and whether retrying may succeed
+ */
+export abstract class GeminiApiError extends Error {
+  abstract readonly code: GeminiErrorCode;
+  abstract readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Raised on 429 / RESOURCE_EXHAUSTED: the request was rejected, not processed
+ */
+export class QuotaExceededError extends GeminiApiError {
+  override readonly name = "QuotaExceededError";
+  readonly code = "quota_exceeded";
+  readonly retryable = true;
+
+  constructor(
+    message: string,
+    status?: number,
+    // Delay requested by the API, if it sent one
+    readonly retryAfterMs?: number,
+  ) {
+    super(message, status);
+  }
+}
+
+/**
+ * Raised on 404 / NOT_FOUND
+ */
+export class NotFoundError extends GeminiApiError {
+  override readonly name = "NotFoundError";
+  readonly code = "not_found";
+  readonly retryable = false;
+}
+
+/**
+ * Raised on 400 / INVALID_ARGUMENT and other rejected requests
+ */
+class InvalidArgumentError extends GeminiApiError {
+  override readonly name = "InvalidArgumentError";
+  readonly code = "invalid_argument";
+  readonly retryable = false;
+}
+
+/**
+ * Raised on 401 / 403: missing or invalid API key, or no access to the resource
+ */
+class AuthenticationError extends GeminiApiError {
+  override readonly name = "AuthenticationError";
+  readonly code = "auth_failed";
+  readonly retryable = false;
+}
+
+/**
+ * Raised on 408 / 504 / DEADLINE_EXCEEDED and client-side request timeouts
+ */
+class RequestTimeoutError extends GeminiApiError {
+  override readonly name = "RequestTimeoutError";
+  readonly code = "timeout";
+  readonly retryable = true;
+}
+
+/**
+ * Raised on 5xx / UNAVAILABLE and network failures
+ */
+class ServiceUnavailableError extends GeminiApiError {
+  override readonly name = "ServiceUnavailableError";
+  readonly code = "unavailable";
+  readonly retryable = true;
+}
+
+/**
+ * Retry delay from a RetryInfo detail in the error message, e.g. "retryDelay": "12s"
+ */
+function parseRetryDelayMs(message: string): number | undefined {
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message);
+  return match?.[1] ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Map an HTTP status to a typed error
+ */
+function fromHttpStatus(status: number, message: string): GeminiApiError | undefined {
+  if (status === 429) {
+    return new QuotaExceededError(message, status, parseRetryDelayMs(message));
+  }
+  if (status === 404) {
+    return new NotFoundError(message, status);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, status);
+  }
+  if (status === 408 || status === 504) {
+    return new RequestTimeoutError(message, status);
+  }
+  if (status >= 500) {
+    return new ServiceUnavailableError(message, status);
+  }
+  if (status >= 400) {
+    return new InvalidArgumentError(message, status);
+  }
+  return undefined;
+}
+
+/**
+ * HTTP status equivalents of google.rpc.Code values reported by long-running operations
+ */
+const RPC_CODE_STATUS: Record<number, number> = {
+  3: 400, // INVALID_ARGUMENT
+  4: 504, // DEADLINE_EXCEEDED
+  5: 404, // NOT_FOUND
+  7: 403, // PERMISSION_DENIED
+  8: 429, // RESOURCE_EXHAUSTED
+  9: 400, // FAILED_PRECONDITION
+  13: 500, // INTERNAL
+  14: 503, // UNAVAILABLE
+  16: 401, // UNAUTHENTICATED
+};
+
+/**
+ * Convert an error thrown by the Gemini SDK into a typed error
+ * Errors that are not API, network or abort failures are returned unchanged
+ */
+export function toGeminiError(error: unknown): unknown {
+  if (
+    error instanceof GeminiApiError ||
+    error instanceof OperationCancelledError ||
+    !(error instanceof Error)
+  ) {
+    return error;
+  }
+
+  // fetch() and the SDK upload reject with a DOMException named AbortError
+  if (error.name === "AbortError") {
+    return new OperationCancelledError();
+  }
+
+  const { status } = error as { status?: unknown };
+  if (typeof status === "number") {
+    return fromHttpStatus(status, error.message) ?? error;
+  }
+
+  // The SDK wraps fetch() failures as Error("exception <error> sending request")
+  const failure = /^exception (\w+): (.*) sending request$/s.exec(error.message);
+  if (failure?.[1] === "AbortError") {
+    return new OperationCancelledError();
+  }
+  if (failure?.[1] === "TimeoutError") {
+    return new RequestTimeoutError(`Gemini API request timed out: ${failure[2] ?? ""}`);
+  }
+  if (failure?.[1] === "TypeError") {
+    return new ServiceUnavailableError(
+      `Network error calling the Gemini API: ${failure[2] ?? ""}`,
+    );
+  }
+
+  return error;
+}
+
+/**
+ * Convert the error of a failed long-running operation into a typed error
+ */
+export function fromOperationError(error: {
+  message?: string | undefined;
+  code?: number | undefined;
+}): Error {
+  const message = error.message ?? JSON.stringify(error);
+  const status = error.code !== undefined ? RPC_CODE_STATUS[error.code] : undefined;
+  const typed = status !== undefined ? fromHttpStatus(status, message) : undefined;
+  return typed ?? new Error(message);
+}
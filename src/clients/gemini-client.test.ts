@@ -0,0 +1,234 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GeminiApiError, OperationCancelledError } from "./errors.js";
+import { GeminiClient } from "./gemini-client.js";
+import { logger } from "../utils/logger.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn() },
+}));
+
+const api = vi.hoisted(() => ({
+  fileSearchStores: {
+    get: vi.fn(),
+    list: vi.fn(),
+    create: vi.fn(),
+    uploadToFileSearchStore: vi.fn(),
+  },
+  operations: { get: vi.fn() },
+}));
+
+vi.mock("@google/genai", () => ({
+  GoogleGenAI: class {
+    fileSearchStores = api.fileSearchStores;
+    operations = api.operations;
+  },
+}));
+
+const STORE = "fileSearchStores/docs";
+
+function apiError(status: number, message = `HTTP ${String(status)}`): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function client(retry: Partial<{ maxRetries: number; initialDelayMs: number }> = {}) {
+  return new GeminiClient("test-key", {
+    retry: { maxRetries: 3, initialDelayMs: 1, maxDelayMs: 1000, ...retry },
+  });
+}
+
+function upload(geminiClient: GeminiClient, signal?: AbortSignal) {
+  return geminiClient.uploadContent({
+    storeName: STORE,
+    content: "hello",
+    displayName: "hello.txt",
+    ...(signal && { signal }),
+  });
+}
+
+describe("GeminiClient retries", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    api.fileSearchStores.uploadToFileSearchStore.mockResolvedValue({
+      name: "operations/upload",
+      done: true,
+      response: { documentName: `${STORE}/documents/hello` },
+    });
+  });
+
+  it("retries transient failures until the call succeeds", async () => {
+    api.fileSearchStores.get
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(new Error("exception TypeError: fetch failed sending request"))
+      .mockResolvedValueOnce({ name: STORE, displayName: "docs" });
+
+    const store = await client().getStore(STORE);
+
+    expect(store.name).toBe(STORE);
+    expect(api.fileSearchStores.get).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after maxRetries with a typed error", async () => {
+    api.fileSearchStores.get.mockRejectedValue(apiError(500));
+
+    await expect(client({ maxRetries: 2 }).getStore(STORE)).rejects.toMatchObject({
+      code: "unavailable",
+      status: 500,
+    });
+    expect(api.fileSearchStores.get).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry permanent failures", async () => {
+    api.fileSearchStores.get.mockRejectedValue(apiError(403));
+
+    const error: unknown = await client().getStore(STORE).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GeminiApiError);
+    expect((error as GeminiApiError).code).toBe("auth_failed");
+    expect(api.fileSearchStores.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries requests with side effects only when the quota rejected them", async () => {
+    api.fileSearchStores.uploadToFileSearchStore.mockRejectedValueOnce(apiError(503));
+    await expect(upload(client())).rejects.toMatchObject({ code: "unavailable" });
+    expect(api.fileSearchStores.uploadToFileSearchStore).toHaveBeenCalledTimes(1);
+
+    api.fileSearchStores.uploadToFileSearchStore.mockRejectedValueOnce(apiError(429));
+    await expect(upload(client())).resolves.toEqual({
+      documentName: `${STORE}/documents/hello`,
+    });
+    expect(api.fileSearchStores.uploadToFileSearchStore).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not wait for a quota that resets after the longest backoff", async () => {
+    api.fileSearchStores.get.mockRejectedValue(
+      apiError(429, '{"error": {"details": [{"retryDelay": "60s"}]}}'),
+    );
+
+    await expect(client().getStore(STORE)).rejects.toMatchObject({
+      code: "quota_exceeded",
+      retryAfterMs: 60_000,
+    });
+    expect(api.fileSearchStores.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting to retry when the signal is aborted", async () => {
+    api.fileSearchStores.uploadToFileSearchStore.mockRejectedValue(apiError(429));
+    const controller = new AbortController();
+
+    const pending = upload(client({ initialDelayMs: 60_000 }), controller.signal);
+    await vi.waitFor(() => {
+      expect(api.fileSearchStores.uploadToFileSearchStore).toHaveBeenCalled();
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(OperationCancelledError);
+    expect(api.fileSearchStores.uploadToFileSearchStore).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the operation name when polling is cancelled", async () => {
+    api.fileSearchStores.uploadToFileSearchStore.mockResolvedValue({
+      name: "operations/upload",
+      done: false,
+    });
+    api.operations.get.mockRejectedValue(
+      new DOMException("This operation was aborted", "AbortError"),
+    );
+    const geminiClient = new GeminiClient("test-key", {
+      operationPolling: { initialIntervalMs: 1, maxIntervalMs: 1, timeoutMs: 60_000 },
+    });
+
+    const error: unknown = await upload(geminiClient).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OperationCancelledError);
+    expect((error as OperationCancelledError).operationName).toBe("operations/upload");
+  });
+});
+
+describe("GeminiClient store resolution", () => {
+  const OLDEST = store("fileSearchStores/oldest", "docs", "2025-01-01T00:00:00Z");
+  const NEWER = store("fileSearchStores/newer", "docs", "2025-06-01T00:00:00Z");
+  const OTHER = store("fileSearchStores/other", "other", "2024-01-01T00:00:00Z");
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("uses the oldest of several stores sharing a display name and warns once", async () => {
+    api.fileSearchStores.list.mockResolvedValue([NEWER, OTHER, OLDEST]);
+    const geminiClient = client();
+
+    expect((await geminiClient.ensureStore("docs")).name).toBe(OLDEST.name);
+    expect((await geminiClient.findStoreByDisplayName("docs"))?.name).toBe(OLDEST.name);
+    expect(api.fileSearchStores.create).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(logger.warn).mock.calls[0]?.[0]).toContain(
+      "Using the oldest (fileSearchStores/oldest)",
+    );
+  });
+
+  it("creates a missing store once for concurrent callers", async () => {
+    api.fileSearchStores.list.mockResolvedValue([OTHER]);
+    api.fileSearchStores.create.mockResolvedValue(store("fileSearchStores/created", "docs"));
+    const geminiClient = client();
+
+    const stores = await Promise.all([
+      geminiClient.ensureStore("docs"),
+      geminiClient.ensureStore("docs"),
+      geminiClient.ensureStore("docs"),
+    ]);
+
+    expect(stores.map(({ name }) => name)).toEqual(Array(3).fill("fileSearchStores/created"));
+    expect(api.fileSearchStores.list).toHaveBeenCalledTimes(1);
+    expect(api.fileSearchStores.create).toHaveBeenCalledTimes(1);
+
+    // Later calls use the cached resolution
+    await geminiClient.ensureStore("docs");
+    expect(api.fileSearchStores.list).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets a later call retry after a failed lookup", async () => {
+    api.fileSearchStores.list.mockRejectedValueOnce(apiError(403)).mockResolvedValue([OLDEST]);
+    const geminiClient = client();
+
+    await expect(geminiClient.ensureStore("docs")).rejects.toMatchObject({ code: "auth_failed" });
+    expect((await geminiClient.ensureStore("docs")).name).toBe(OLDEST.name);
+  });
+
+  it("looks a store up again after the API reports it not found", async () => {
+    api.fileSearchStores.list.mockResolvedValue([OLDEST]);
+    api.fileSearchStores.get.mockRejectedValue(apiError(404));
+    const geminiClient = client();
+
+    await geminiClient.ensureStore("docs");
+    await expect(geminiClient.getStore(OLDEST.name)).rejects.toMatchObject({ code: "not_found" });
+    await geminiClient.ensureStore("docs");
+
+    expect(api.fileSearchStores.list).toHaveBeenCalledTimes(2);
+  });
+
+  it("selects stores from an existing listing with the same rule", async () => {
+    api.fileSearchStores.list.mockResolvedValue([OLDEST]);
+    const geminiClient = client();
+
+    expect(geminiClient.selectStoreByDisplayName([NEWER, OLDEST], "docs")?.name).toBe(OLDEST.name);
+    expect(geminiClient.selectStoreByDisplayName([OTHER], "docs")).toBeNull();
+
+    // A listing without the store drops its cached resolution
+    await geminiClient.ensureStore("docs");
+    geminiClient.selectStoreByDisplayName([], "docs");
+    await geminiClient.ensureStore("docs");
+    expect(api.fileSearchStores.list).toHaveBeenCalledTimes(2);
+  });
+});
+
+function store(name: string, displayName: string, createTime?: string) {
+  return {
+    name,
+    displayName,
+    createTime,
+    activeDocumentsCount: 0,
+    pendingDocumentsCount: 0,
+    failedDocumentsCount: 0,
+    sizeBytes: 0,
+  };
+}
@@ -3,14 +3,51 @@
  */
 
 import { GoogleGenAI } from "@google/genai";
+import type { Document } from "@google/genai";
 import { readFile } from "node:fs/promises";
-import { randomUUID } from "node:crypto";
 import { logger } from "../utils/logger.js";
-import type { CustomMetadata } from "../types/index.js";
+import { backoffDelay, sleep } from "../utils/timing.js";
+import { ConcurrencyLimiter } from "../utils/concurrency.js";
+import type { QueryCache } from "../cache/query-cache.js";
+import {
+  GeminiApiError,
+  NotFoundError,
+  OperationCancelledError,
+  OperationTimeoutError,
+  QuotaExceededError,
+  fromOperationError,
+  toGeminiError,
+} from "./errors.js";
+import type {
+  ChunkingConfig,
+  Citation,
+  CitationSupport,
+  ConversationTurn,
+  CustomMetadata,
+  OperationPollingConfig,
+  RetryConfig,
+} from "../types/index.js";
 
 type FileSearchStore = {
   name: string;
   displayName?: string | undefined;
+  createTime?: string | undefined;
+  updateTime?: string | undefined;
+  activeDocumentsCount: number;
+  pendingDocumentsCount: number;
+  failedDocumentsCount: number;
+  sizeBytes: number;
+};
+
+type RawFileSearchStore = {
+  name?: string | undefined;
+  displayName?: string | undefined;
+  createTime?: string | undefined;
+  updateTime?: string | undefined;
+  activeDocumentsCount?: string | undefined;
+  pendingDocumentsCount?: string | undefined;
+  failedDocumentsCount?: string | undefined;
+  sizeBytes?: string | undefined;
 };
 
 type UploadFileResult = {
@@ -21,11 +58,80 @@ type ListStoresConfig = {
   pageSize?: number;
 };
 
+type DocumentInfo = {
+  name: string;
+  displayName?: string | undefined;
+  state?: string | undefined;
+  sizeBytes?: number | undefined;
+  mimeType?: string | undefined;
+  createTime?: string | undefined;
+  updateTime?: string | undefined;
+  customMetadata: CustomMetadata[];
+};
+
+type ListDocumentsResult = {
+  documents: DocumentInfo[];
+  nextPageToken?: string | undefined;
+};
+
+/**
+ * Maximum page size accepted by the documents.list API
+ */
+const MAX_DOCUMENTS_PAGE_SIZE = 20;
+
+type GeminiClientOptions = {
+  operationPolling?: OperationPollingConfig;
+  retry?: RetryConfig;
+  // Maximum number of Gemini API calls in flight at once (default: 4)
+  maxConcurrentCalls?: number;
+  // Answers are served from here when possible; uploads and deletes invalidate it
+  queryCache?: QueryCache | undefined;
+};
+
+const DEFAULT_MAX_CONCURRENT_CALLS = 4;
+
+const DEFAULT_OPERATION_POLLING: OperationPollingConfig = {
+  initialIntervalMs: 2000,
+  maxIntervalMs: 30000,
+  timeoutMs: 10 * 60 * 1000,
+};
+
+const DEFAULT_RETRY: RetryConfig = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+type CallOptions = {
+  // The request creates something (store, document): only retry failures
+  // where the API guarantees it was not processed
+  sideEffects?: boolean;
+  // Checked before each retry, e.g. to stop once a stream has produced output
+  canRetry?: () => boolean;
+  signal?: AbortSignal | undefined;
+  // FileSearchStore the request targets; its cached resolution is dropped
+  // when the API reports it not found
+  store?: string;
+};
+
 type GenerateContentResult = {
   text: string;
-  citations: string[];
+  citations: Citation[];
+  // Set when the answer was served from the query cache
+  cachedAt?: Date;
+};
+
+type QueryArgs = {
+  storeName: string;
+  query: string;
+  model?: string;
+  metadataFilter?: string;
+  // Earlier turns of the conversation, oldest first
+  history?: ConversationTurn[];
 };
 
+const DEFAULT_QUERY_MODEL = "gemini-2.5-pro";
+
 /**
  * Operation polling utility
  */
@@ -35,42 +141,177 @@ type MinimalOperation = {
   error?: { message?: string; code?: number; details?: unknown };
 };
 
+/**
+ * Store part of a document resource name
+ * (fileSearchStores/<store>/documents/<id>)
+ * @throws Error if the name does not have that form
+ */
+function storeNameOfDocument(documentName: string): string {
+  const match = /^(fileSearchStores\/[^/]+)\/documents\/[^/]+$/.exec(documentName);
+  if (!match?.[1]) {
+    throw new Error(
+      `Invalid document name: ${documentName}. Expected fileSearchStores/<store>/documents/<id>.`,
+    );
+  }
+  return match[1];
+}
+
 export class GeminiClient {
   private ai: GoogleGenAI;
+  private operationPolling: OperationPollingConfig;
+  private callLimiter: ConcurrencyLimiter;
+  private retry: RetryConfig;
+  private queryCache: QueryCache | undefined;
+  // Resolved stores by display name, kept for the process lifetime
+  private resolvedStores = new Map<string, FileSearchStore>();
+  // In-flight ensureStore calls by display name
+  private pendingStores = new Map<string, Promise<FileSearchStore>>();
+  // Display names already reported as having duplicate stores
+  private reportedDuplicates = new Set<string>();
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: GeminiClientOptions = {}) {
     this.ai = new GoogleGenAI({
       vertexai: false,
       apiKey,
     });
+    this.operationPolling = options.operationPolling ?? DEFAULT_OPERATION_POLLING;
+    this.retry = options.retry ?? DEFAULT_RETRY;
+    this.queryCache = options.queryCache;
+    this.callLimiter = new ConcurrencyLimiter(
+      options.maxConcurrentCalls ?? DEFAULT_MAX_CONCURRENT_CALLS,
+    );
+  }
+
+  /**
+   * Run a Gemini API call within the global concurrency cap, retrying
+   * transient failures with exponential backoff
+   * Calls beyond the cap wait for a free slot instead of hitting API quotas;
+   * the slot is released while waiting to retry
+   * @throws GeminiApiError subclass when the API call fails
+   * @throws OperationCancelledError if the signal is aborted
+   */
+  private async call<T>(
+    request: () => Promise<T>,
+    options: CallOptions = {},
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.callLimiter.run(request);
+      } catch (rawError) {
+        const error = toGeminiError(rawError);
+        const delayMs = this.retryDelay(error, attempt, options);
+        if (delayMs === undefined) {
+          if (error instanceof NotFoundError && options.store) {
+            this.forgetStore(options.store);
+          }
+          throw error;
+        }
+
+        logger.warn(
+          `Gemini API call failed (${(error as GeminiApiError).name}), retrying in ${String(Math.round(delayMs))}ms (retry ${String(attempt + 1)} of ${String(this.retry.maxRetries)})`,
+        );
+        try {
+          await sleep(delayMs, options.signal);
+        } catch (_error) {
+          throw new OperationCancelledError();
+        }
+      }
+    }
+  }
+
+  /**
+   * Delay before retrying a failed call, or undefined if it must not be retried
+   */
+  private retryDelay(
+    error: unknown,
+    attempt: number,
+    options: CallOptions,
+  ): number | undefined {
+    const { maxRetries, initialDelayMs, maxDelayMs } = this.retry;
+
+    if (
+      !(error instanceof GeminiApiError) ||
+      !error.retryable ||
+      attempt >= maxRetries ||
+      (options.sideEffects && !(error instanceof QuotaExceededError)) ||
+      (options.canRetry && !options.canRetry())
+    ) {
+      return undefined;
+    }
+
+    const delayMs = backoffDelay(attempt, initialDelayMs, maxDelayMs);
+    if (error instanceof QuotaExceededError && error.retryAfterMs !== undefined) {
+      // A quota that resets later than the longest backoff is not worth waiting for
+      return error.retryAfterMs <= maxDelayMs
+        ? Math.max(delayMs, error.retryAfterMs)
+        : undefined;
+    }
+    return delayMs;
   }
 
   /**
    * Wait for long-running operation to complete
+   * Polls with exponential backoff and jitter until the configured deadline
+   * @throws OperationTimeoutError if the deadline passes first
+   * @throws OperationCancelledError if the signal is aborted
    */
   private async waitForOperationDone<T extends MinimalOperation>(
     operation: T,
-    pollMs = 5000,
+    signal?: AbortSignal,
   ): Promise<T> {
+    const { initialIntervalMs, maxIntervalMs, timeoutMs } =
+      this.operationPolling;
+    const operationName = operation.name ?? "(unnamed operation)";
+    const deadline = Date.now() + timeoutMs;
     let current: MinimalOperation = operation as MinimalOperation;
 
-    for (;;) {
+    for (let attempt = 0; ; attempt++) {
       if (current.done === true) {
         if (current.error) {
-          throw new Error(
-            current.error.message ?? JSON.stringify(current.error),
-          );
+          throw fromOperationError(current.error);
         }
         return current as T;
       }
 
-      await new Promise((resolve) => setTimeout(resolve, pollMs));
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new OperationTimeoutError(operationName, timeoutMs);
+      }
+
+      try {
+        await sleep(
+          Math.min(
+            backoffDelay(attempt, initialIntervalMs, maxIntervalMs),
+            remaining,
+          ),
+          signal,
+        );
+      } catch (_error) {
+        throw new OperationCancelledError(operationName);
+      }
+
+      logger.debug(`Polling operation ${operationName} (attempt ${String(attempt + 1)})`);
 
-      const next = await (
-        this.ai.operations.get as unknown as (args: {
-          operation: unknown;
-        }) => Promise<unknown>
-      )({ operation: current });
+      let next: unknown;
+      try {
+        next = await this.call(
+          () =>
+            (
+              this.ai.operations.get as unknown as (args: {
+                operation: unknown;
+                config?: { abortSignal?: AbortSignal };
+              }) => Promise<unknown>
+            )({
+              operation: current,
+              ...(signal && { config: { abortSignal: signal } }),
+            }),
+          { signal },
+        );
+      } catch (error) {
+        throw error instanceof OperationCancelledError
+          ? new OperationCancelledError(operationName)
+          : error;
+      }
 
       if (typeof next !== "object" || next === null) {
         throw new Error("Invalid operation state received while polling");
@@ -80,47 +321,95 @@ export class GeminiClient {
   }
 
   /**
-   * Get a specific FileSearchStore by name
+   * Convert an API FileSearchStore into the client representation
    */
-  async getStore(name: string): Promise<FileSearchStore> {
-    const store = await this.ai.fileSearchStores.get({ name });
-    if (!store.name) {
-      throw new Error(`FileSearchStore not found: ${name}`);
-    }
+  private toFileSearchStore(
+    store: RawFileSearchStore & { name: string },
+  ): FileSearchStore {
     return {
       name: store.name,
       displayName: store.displayName,
+      createTime: store.createTime,
+      updateTime: store.updateTime,
+      activeDocumentsCount: Number(store.activeDocumentsCount ?? 0),
+      pendingDocumentsCount: Number(store.pendingDocumentsCount ?? 0),
+      failedDocumentsCount: Number(store.failedDocumentsCount ?? 0),
+      sizeBytes: Number(store.sizeBytes ?? 0),
     };
   }
 
   /**
-   * List all FileSearchStores
+   * Get a specific FileSearchStore by name
    */
-  async listStores(config?: ListStoresConfig): Promise<FileSearchStore[]> {
-    const stores: FileSearchStore[] = [];
-    const pager = await this.ai.fileSearchStores.list({
-      config: { pageSize: config?.pageSize ?? 20 },
+  async getStore(name: string): Promise<FileSearchStore> {
+    const store = await this.call(() => this.ai.fileSearchStores.get({ name }), {
+      store: name,
     });
+    if (!store.name) {
+      throw new NotFoundError(`FileSearchStore not found: ${name}`);
+    }
+    return this.toFileSearchStore({ ...store, name: store.name });
+  }
 
-    for await (const store of pager) {
-      stores.push({
-        name: store.name ?? "",
-        displayName: store.displayName,
+  /**
+   * List all FileSearchStores
+   */
+  async listStores(config?: ListStoresConfig): Promise<FileSearchStore[]> {
+    // Hold one slot while following all pages
+    return await this.call(async () => {
+      const stores: FileSearchStore[] = [];
+      const pager = await this.ai.fileSearchStores.list({
+        config: { pageSize: config?.pageSize ?? 20 },
       });
-    }
 
-    return stores;
+      for await (const store of pager) {
+        stores.push(this.toFileSearchStore({ ...store, name: store.name ?? "" }));
+      }
+
+      return stores;
+    });
   }
 
   /**
    * Find a FileSearchStore by display name
+   * Always asks the API and refreshes the cached resolution. When several
+   * stores share the display name, the oldest is used and a warning logged.
    */
   async findStoreByDisplayName(
     displayName: string,
   ): Promise<FileSearchStore | null> {
-    const stores = await this.listStores();
-    const found = stores.find((store) => store.displayName === displayName);
-    return found ?? null;
+    return this.selectStoreByDisplayName(await this.listStores(), displayName);
+  }
+
+  /**
+   * Pick the store a display name resolves to from a listStores() result
+   * Applies the same choice as ensureStore (the oldest of duplicates), so
+   * listings report the store that tools write to, and refreshes the cached
+   * resolution
+   */
+  selectStoreByDisplayName(
+    stores: FileSearchStore[],
+    displayName: string,
+  ): FileSearchStore | null {
+    const matches = stores
+      .filter((store) => store.displayName === displayName)
+      .sort((a, b) => (a.createTime ?? "").localeCompare(b.createTime ?? ""));
+    const found = matches[0];
+
+    if (!found) {
+      this.resolvedStores.delete(displayName);
+      return null;
+    }
+
+    if (matches.length > 1 && !this.reportedDuplicates.has(displayName)) {
+      this.reportedDuplicates.add(displayName);
+      logger.warn(
+        `Found ${String(matches.length)} FileSearchStores with displayName "${displayName}": ${matches.map((store) => store.name).join(", ")}. Using the oldest (${found.name}); delete or rename the others to avoid splitting documents between them.`,
+      );
+    }
+
+    this.resolvedStores.set(displayName, found);
+    return found;
   }
 
   /**
@@ -128,25 +417,63 @@ export class GeminiClient {
    */
   async createStore(displayName: string): Promise<FileSearchStore> {
     logger.info(`Creating FileSearchStore with displayName: ${displayName}`);
-    const created = await this.ai.fileSearchStores.create({
-      config: { displayName },
-    });
+    const created = await this.call(
+      () =>
+        this.ai.fileSearchStores.create({
+          config: { displayName },
+        }),
+      { sideEffects: true },
+    );
 
     if (!created.name) {
       throw new Error("Failed to create FileSearchStore");
     }
 
     logger.info(`Created FileSearchStore: ${created.name}`);
-    return {
-      name: created.name,
-      displayName: created.displayName,
-    };
+    const store = this.toFileSearchStore({ ...created, name: created.name });
+    this.resolvedStores.set(displayName, store);
+    return store;
+  }
+
+  /**
+   * Delete a FileSearchStore
+   * Without force, the API rejects deletion of stores that still contain Documents
+   */
+  async deleteStore(name: string, force = false): Promise<void> {
+    logger.info(`Deleting FileSearchStore: ${name} (force: ${String(force)})`);
+    await this.call(() =>
+      this.ai.fileSearchStores.delete({
+        name,
+        config: { force },
+      }),
+    );
+    logger.info(`Deleted FileSearchStore: ${name}`);
+    this.forgetStore(name);
+    await this.queryCache?.invalidate(name);
   }
 
   /**
    * Ensure a FileSearchStore exists (find by displayName or create)
+   * Resolutions are cached; concurrent calls for the same display name share
+   * one lookup, so parallel first uploads cannot create duplicate stores
    */
   async ensureStore(displayName: string): Promise<FileSearchStore> {
+    const resolved = this.resolvedStores.get(displayName);
+    if (resolved) {
+      return resolved;
+    }
+
+    let pending = this.pendingStores.get(displayName);
+    if (!pending) {
+      pending = this.findOrCreateStore(displayName).finally(() => {
+        this.pendingStores.delete(displayName);
+      });
+      this.pendingStores.set(displayName, pending);
+    }
+    return await pending;
+  }
+
+  private async findOrCreateStore(displayName: string): Promise<FileSearchStore> {
     logger.info(
       `Searching for FileSearchStore with displayName: ${displayName}`,
     );
@@ -163,6 +490,133 @@ export class GeminiClient {
     return await this.createStore(displayName);
   }
 
+  /**
+   * Drop the cached resolution of a store so the next ensureStore looks it up again
+   */
+  private forgetStore(storeName: string): void {
+    for (const [displayName, store] of this.resolvedStores) {
+      if (store.name === storeName) {
+        logger.info(`Dropping cached resolution of FileSearchStore ${storeName}`);
+        this.resolvedStores.delete(displayName);
+      }
+    }
+  }
+
+  /**
+   * Convert an API Document into the client representation
+   */
+  private toDocumentInfo(document: Document): DocumentInfo {
+    return {
+      name: document.name ?? "",
+      displayName: document.displayName,
+      state: document.state,
+      sizeBytes:
+        document.sizeBytes !== undefined ? Number(document.sizeBytes) : undefined,
+      mimeType: document.mimeType,
+      createTime: document.createTime,
+      updateTime: document.updateTime,
+      customMetadata: (document.customMetadata ?? [])
+        .filter((entry) => typeof entry.key === "string")
+        .map((entry) => {
+          const metadata: CustomMetadata = { key: entry.key ?? "" };
+          if (entry.stringValue !== undefined) {
+            metadata.stringValue = entry.stringValue;
+          }
+          if (entry.numericValue !== undefined) {
+            metadata.numericValue = entry.numericValue;
+          }
+          return metadata;
+        }),
+    };
+  }
+
+  /**
+   * Get a Document by its resource name
+   */
+  async getDocument(name: string): Promise<DocumentInfo> {
+    const document = await this.call(() =>
+      this.ai.fileSearchStores.documents.get({ name }),
+    );
+    return this.toDocumentInfo(document);
+  }
+
+  /**
+   * List one page of Documents in a FileSearchStore
+   */
+  async listDocuments(args: {
+    storeName: string;
+    pageSize?: number;
+    pageToken?: string;
+  }): Promise<ListDocumentsResult> {
+    const config: { pageSize: number; pageToken?: string } = {
+      pageSize: Math.min(
+        args.pageSize ?? MAX_DOCUMENTS_PAGE_SIZE,
+        MAX_DOCUMENTS_PAGE_SIZE,
+      ),
+    };
+
+    if (args.pageToken) {
+      config.pageToken = args.pageToken;
+    }
+
+    const pager = await this.call(
+      () =>
+        this.ai.fileSearchStores.documents.list({
+          parent: args.storeName,
+          config,
+        }),
+      { store: args.storeName },
+    );
+
+    const documents = pager.page.map((document) =>
+      this.toDocumentInfo(document),
+    );
+
+    return {
+      documents,
+      nextPageToken: pager.hasNextPage() ? pager.params.config?.pageToken : undefined,
+    };
+  }
+
+  /**
+   * List all Documents in a FileSearchStore by following every page
+   */
+  async listAllDocuments(storeName: string): Promise<DocumentInfo[]> {
+    const documents: DocumentInfo[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const listArgs: { storeName: string; pageToken?: string } = {
+        storeName,
+      };
+      if (pageToken) {
+        listArgs.pageToken = pageToken;
+      }
+
+      const page = await this.listDocuments(listArgs);
+      documents.push(...page.documents);
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return documents;
+  }
+
+  /**
+   * Delete a Document (and its chunks) from a FileSearchStore
+   */
+  async deleteDocument(documentName: string): Promise<void> {
+    const storeName = storeNameOfDocument(documentName);
+    logger.info(`Deleting document: ${documentName}`);
+    await this.call(() =>
+      this.ai.fileSearchStores.documents.delete({
+        name: documentName,
+        config: { force: true },
+      }),
+    );
+    logger.info(`Deleted document: ${documentName}`);
+    await this.queryCache?.invalidate(storeName);
+  }
+
   /**
    * Upload a Blob to a FileSearchStore (common logic for file and content uploads)
    */
@@ -172,6 +626,8 @@ export class GeminiClient {
     mimeType: string;
     displayName: string;
     metadata?: CustomMetadata[];
+    chunking?: ChunkingConfig;
+    signal?: AbortSignal;
   }): Promise<UploadFileResult> {
     logger.info(`Uploading: ${args.displayName} (${args.mimeType})`);
 
@@ -179,6 +635,8 @@ export class GeminiClient {
       mimeType: string;
       displayName: string;
       customMetadata?: CustomMetadata[];
+      chunkingConfig?: { whiteSpaceConfig: ChunkingConfig };
+      abortSignal?: AbortSignal;
     } = {
       mimeType: args.mimeType,
       displayName: args.displayName,
@@ -188,19 +646,38 @@ export class GeminiClient {
       config.customMetadata = args.metadata;
     }
 
-    const op = await this.ai.fileSearchStores.uploadToFileSearchStore({
-      fileSearchStoreName: args.storeName,
-      file: args.blob,
-      config,
-    });
+    if (args.chunking) {
+      config.chunkingConfig = { whiteSpaceConfig: args.chunking };
+    }
+
+    if (args.signal) {
+      config.abortSignal = args.signal;
+    }
 
-    const finished = await this.waitForOperationDone(op, 5000);
+    const op = await this.call(
+      () =>
+        this.ai.fileSearchStores.uploadToFileSearchStore({
+          fileSearchStoreName: args.storeName,
+          file: args.blob,
+          config,
+        }),
+      { sideEffects: true, signal: args.signal, store: args.storeName },
+    );
+
+    const finished = await this.waitForOperationDone(op, args.signal);
     const result = finished as unknown as {
       response?: { documentName?: string };
     };
 
-    const documentName = result.response?.documentName ?? randomUUID();
+    const documentName = result.response?.documentName;
+    if (!documentName) {
+      // Without a name the document could never be deleted or replaced
+      throw new Error(
+        `Upload of ${args.displayName} finished but the API returned no document name`,
+      );
+    }
     logger.info(`Upload complete: ${documentName}`);
+    await this.queryCache?.invalidate(args.storeName);
 
     return { documentName };
   }
@@ -214,6 +691,8 @@ export class GeminiClient {
     mimeType: string;
     displayName: string;
     metadata?: CustomMetadata[];
+    chunking?: ChunkingConfig;
+    signal?: AbortSignal;
   }): Promise<UploadFileResult> {
     // Read file and convert to Blob to handle multibyte characters in path
     const fileBuffer = await readFile(args.filePath);
@@ -227,6 +706,8 @@ export class GeminiClient {
       mimeType: string;
       displayName: string;
       metadata?: CustomMetadata[];
+      chunking?: ChunkingConfig;
+      signal?: AbortSignal;
     } = {
       storeName: args.storeName,
       blob,
@@ -238,6 +719,14 @@ export class GeminiClient {
       uploadArgs.metadata = args.metadata;
     }
 
+    if (args.chunking) {
+      uploadArgs.chunking = args.chunking;
+    }
+
+    if (args.signal) {
+      uploadArgs.signal = args.signal;
+    }
+
     return await this.uploadBlob(uploadArgs);
   }
 
@@ -247,12 +736,16 @@ export class GeminiClient {
   async uploadContent(args: {
     storeName: string;
     content: string;
+    mimeType?: string;
     displayName: string;
     metadata?: CustomMetadata[];
+    chunking?: ChunkingConfig;
+    signal?: AbortSignal;
   }): Promise<UploadFileResult> {
     const encoder = new TextEncoder();
     const contentBytes = encoder.encode(args.content);
-    const blob = new Blob([contentBytes], { type: "text/plain" });
+    const mimeType = args.mimeType ?? "text/plain";
+    const blob = new Blob([contentBytes], { type: mimeType });
 
     const uploadArgs: {
       storeName: string;
@@ -260,10 +753,12 @@ export class GeminiClient {
       mimeType: string;
       displayName: string;
       metadata?: CustomMetadata[];
+      chunking?: ChunkingConfig;
+      signal?: AbortSignal;
     } = {
       storeName: args.storeName,
       blob,
-      mimeType: "text/plain",
+      mimeType,
       displayName: args.displayName,
     };
 
@@ -271,75 +766,271 @@ export class GeminiClient {
       uploadArgs.metadata = args.metadata;
     }
 
+    if (args.chunking) {
+      uploadArgs.chunking = args.chunking;
+    }
+
+    if (args.signal) {
+      uploadArgs.signal = args.signal;
+    }
+
     return await this.uploadBlob(uploadArgs);
   }
 
   /**
-   * Query a FileSearchStore using RAG
+   * Build the generateContent request for a File Search RAG query
    */
-  async queryStore(args: {
-    storeName: string;
-    query: string;
-    model?: string;
-  }): Promise<GenerateContentResult> {
-    const model = args.model ?? "gemini-2.5-pro";
+  private buildQueryRequest(args: QueryArgs) {
+    const model = args.model ?? DEFAULT_QUERY_MODEL;
     logger.info(`Querying store ${args.storeName} with model ${model}`);
 
-    const response = await this.ai.models.generateContent({
+    const fileSearch: { fileSearchStoreNames: string[]; metadataFilter?: string } =
+      {
+        fileSearchStoreNames: [args.storeName],
+      };
+
+    if (args.metadataFilter) {
+      fileSearch.metadataFilter = args.metadataFilter;
+    }
+
+    // Earlier turns are replayed as alternating user and model messages
+    const contents = args.history?.length
+      ? [
+          ...args.history.flatMap((turn) => [
+            { role: "user", parts: [{ text: turn.question }] },
+            { role: "model", parts: [{ text: turn.answer }] },
+          ]),
+          { role: "user", parts: [{ text: args.query }] },
+        ]
+      : args.query;
+
+    return {
       model,
-      contents: args.query,
+      contents,
       config: {
-        tools: [
-          {
-            fileSearch: {
-              fileSearchStoreNames: [args.storeName],
-            },
-          },
-        ],
+        tools: [{ fileSearch }],
       },
-    });
+    };
+  }
 
-    return {
+  /**
+   * Query a FileSearchStore using RAG
+   */
+  async queryStore(args: QueryArgs): Promise<GenerateContentResult> {
+    const generation = this.queryCache?.generation(args.storeName);
+    const cached = await this.getCachedAnswer(args);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.call(
+      () => this.ai.models.generateContent(this.buildQueryRequest(args)),
+      { store: args.storeName },
+    );
+
+    const result = {
       text: this.extractResponseText(response),
       citations: this.extractCitations(response),
     };
+    await this.cacheAnswer(args, result, generation);
+    return result;
   }
 
   /**
-   * Extract text from Gemini response
+   * Query a FileSearchStore using RAG, streaming partial answer text
+   * onText is called with each text delta as it arrives; the assembled answer
+   * and citations are returned once the stream completes
    */
-  private extractResponseText(response: unknown): string {
+  async queryStoreStream(
+    args: QueryArgs,
+    onText: (delta: string) => Promise<void>,
+  ): Promise<GenerateContentResult> {
+    const generation = this.queryCache?.generation(args.storeName);
+    const cached = await this.getCachedAnswer(args);
+    if (cached) {
+      // Pass the whole answer on at once so streaming callers see the same text
+      if (cached.text) {
+        await onText(cached.text);
+      }
+      return cached;
+    }
+
+    let text = "";
+    let groundingMetadata: unknown;
+
+    // Hold one slot until the stream is fully consumed; retry only
+    // failures that happen before any text was passed on
+    await this.call(async () => {
+      const stream = await this.ai.models.generateContentStream(
+        this.buildQueryRequest(args),
+      );
+
+      for await (const chunk of stream) {
+        const delta = this.extractResponseText(chunk);
+        if (delta) {
+          text += delta;
+          await onText(delta);
+        }
+
+        // Grounding metadata arrives with the final chunk(s) and covers the full answer
+        const metadata = chunk.candidates?.[0]?.groundingMetadata;
+        if (metadata) {
+          groundingMetadata = metadata;
+        }
+      }
+    }, { canRetry: () => text === "", store: args.storeName });
+
+    // Reassemble as a single-part response so citation offsets line up with the full text
+    const assembled = {
+      candidates: [{ content: { parts: [{ text }] }, groundingMetadata }],
+    };
+
+    const result = {
+      text,
+      citations: this.extractCitations(assembled),
+    };
+    await this.cacheAnswer(args, result, generation);
+    return result;
+  }
+
+  private queryCacheKey(args: QueryArgs) {
+    return {
+      storeName: args.storeName,
+      query: args.query,
+      model: args.model ?? DEFAULT_QUERY_MODEL,
+      metadataFilter: args.metadataFilter,
+    };
+  }
+
+  /**
+   * Cached answer for a query, if any
+   * Follow-up questions depend on the conversation, so they are never cached
+   */
+  private async getCachedAnswer(
+    args: QueryArgs,
+  ): Promise<GenerateContentResult | undefined> {
+    if (args.history?.length) {
+      return undefined;
+    }
+
+    const cached = await this.queryCache?.get(this.queryCacheKey(args));
+    if (cached) {
+      logger.info(
+        `Serving cached answer for store ${args.storeName} (cached at ${cached.cachedAt.toISOString()})`,
+      );
+    }
+    return cached;
+  }
+
+  /**
+   * Cache an answer
+   * @param generation - Cache generation of the store when the query started
+   */
+  private async cacheAnswer(
+    args: QueryArgs,
+    result: GenerateContentResult,
+    generation: number | undefined,
+  ): Promise<void> {
+    if (!args.history?.length && generation !== undefined) {
+      await this.queryCache?.set(this.queryCacheKey(args), result, generation);
+    }
+  }
+
+  /**
+   * Extract text parts from Gemini response
+   */
+  private extractResponseParts(response: unknown): string[] {
     const resp = response as {
       candidates?: { content?: { parts?: { text?: string }[] } }[];
     };
 
-    if (!resp.candidates?.[0]?.content?.parts) {
-      return "";
-    }
+    const parts = resp.candidates?.[0]?.content?.parts ?? [];
+    return parts.map((part) => part.text ?? "");
+  }
 
-    const parts = resp.candidates[0].content.parts;
-    return parts.map((part) => part.text ?? "").join("");
+  /**
+   * Extract text from Gemini response
+   */
+  private extractResponseText(response: unknown): string {
+    return this.extractResponseParts(response).join("");
   }
 
   /**
    * Extract citations from Gemini response
+   * Reads File Search retrievedContext chunks (falling back to web chunks)
+   * and maps groundingSupports onto them as spans of the answer text
    */
-  private extractCitations(response: unknown): string[] {
+  private extractCitations(response: unknown): Citation[] {
     const resp = response as {
       candidates?: {
         groundingMetadata?: {
-          groundingChunks?: { web?: { uri?: string } }[];
+          groundingChunks?: {
+            retrievedContext?: {
+              documentName?: string;
+              title?: string;
+              uri?: string;
+              text?: string;
+            };
+            web?: { uri?: string; title?: string };
+          }[];
+          groundingSupports?: {
+            groundingChunkIndices?: number[];
+            segment?: {
+              partIndex?: number;
+              startIndex?: number;
+              endIndex?: number;
+              text?: string;
+            };
+          }[];
         };
       }[];
     };
 
-    const chunks = resp.candidates?.[0]?.groundingMetadata?.groundingChunks;
+    const metadata = resp.candidates?.[0]?.groundingMetadata;
+    const chunks = metadata?.groundingChunks;
     if (!chunks) {
       return [];
     }
 
-    return chunks
-      .map((chunk) => chunk.web?.uri)
-      .filter((uri): uri is string => typeof uri === "string");
+    const citations: Citation[] = chunks.map((chunk, chunkIndex) => {
+      const context = chunk.retrievedContext;
+      return {
+        index: chunkIndex + 1,
+        documentName: context?.documentName,
+        displayName: context?.title ?? chunk.web?.title,
+        uri: context?.uri ?? chunk.web?.uri,
+        snippet: context?.text,
+        supports: [],
+      };
+    });
+
+    // Segment offsets are relative to their part; convert to offsets in the joined text
+    const encoder = new TextEncoder();
+    const partOffsets: number[] = [];
+    let offset = 0;
+    for (const part of this.extractResponseParts(response)) {
+      partOffsets.push(offset);
+      offset += encoder.encode(part).length;
+    }
+
+    for (const support of metadata.groundingSupports ?? []) {
+      const segment = support.segment;
+      if (segment?.endIndex === undefined) {
+        continue;
+      }
+
+      const base = partOffsets[segment.partIndex ?? 0] ?? 0;
+      const span: CitationSupport = {
+        startIndex: base + (segment.startIndex ?? 0),
+        endIndex: base + segment.endIndex,
+        text: segment.text,
+      };
+
+      for (const chunkIndex of support.groundingChunkIndices ?? []) {
+        citations[chunkIndex]?.supports.push(span);
+      }
+    }
+
+    return citations;
   }
 }
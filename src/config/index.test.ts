@@ -0,0 +1,141 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ConfigError, loadConfig, maskSecrets } from "./index.js";
+
+const ENV_NAMES = [
+  "MCP_CONFIG_FILE",
+  "GOOGLE_API_KEY",
+  "MCP_TRANSPORT",
+  "PORT",
+  "GEMINI_MODEL",
+  "MCP_AUTH_TOKENS",
+  "MCP_AUTH_HMAC_SECRET",
+];
+
+describe("loadConfig", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "config-"));
+    // Empty values count as unset
+    for (const name of ENV_NAMES) {
+      vi.stubEnv(name, "");
+    }
+    vi.stubEnv("GOOGLE_API_KEY", "test-api-key");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function configFile(name: string, content: string): Promise<string> {
+    const filePath = join(directory, name);
+    await writeFile(filePath, content);
+    return filePath;
+  }
+
+  function issuesOf(load: () => unknown): string[] {
+    try {
+      load();
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        return error.issues;
+      }
+      throw error;
+    }
+    throw new Error("Expected a ConfigError");
+  }
+
+  it("starts from the built-in defaults", () => {
+    const config = loadConfig();
+
+    expect(config.transport).toEqual({ type: "stdio", port: 3000 });
+    expect(config.gemini.apiKey).toBe("test-api-key");
+    expect(config.auth).toEqual({ tokens: [], hmacSecret: "", allowUnauthenticated: false });
+  });
+
+  it("layers the config file, environment variables and CLI flags in that order", async () => {
+    const file = await configFile(
+      "config.yaml",
+      "transport:\n  type: http\n  port: 4000\ngemini:\n  model: file-model\n",
+    );
+    vi.stubEnv("PORT", "5000");
+
+    const fromEnv = loadConfig({ configFile: file });
+    expect(fromEnv.transport).toEqual({ type: "http", port: 5000 });
+    expect(fromEnv.gemini.model).toBe("file-model");
+    // Sibling defaults survive a partial nested section
+    expect(fromEnv.gemini.apiKey).toBe("test-api-key");
+
+    const fromCli = loadConfig({ configFile: file, cli: { transport: { port: 6000 } } });
+    expect(fromCli.transport).toEqual({ type: "http", port: 6000 });
+  });
+
+  it("reads the config file named by MCP_CONFIG_FILE", async () => {
+    vi.stubEnv("MCP_CONFIG_FILE", await configFile("config.json", '{"gemini": {"model": "json-model"}}'));
+
+    expect(loadConfig().gemini.model).toBe("json-model");
+  });
+
+  it("parses MCP_AUTH_TOKENS entries", () => {
+    vi.stubEnv("MCP_AUTH_TOKENS", "reader:token-0123456789:read, admin-token-0123456789:admin");
+
+    expect(loadConfig().auth.tokens).toEqual([
+      { token: "reader:token-0123456789", scope: "read" },
+      { token: "admin-token-0123456789", scope: "admin" },
+    ]);
+  });
+
+  it("names the layer that set each invalid field", async () => {
+    const file = await configFile("config.yaml", "mcp:\n  defaultPageSize: 0\n  unknownSetting: 1\n");
+    vi.stubEnv("PORT", "not-a-port");
+
+    const issues = issuesOf(() => loadConfig({ configFile: file }));
+
+    expect(issues).toHaveLength(3);
+    expect(issues).toContainEqual(expect.stringMatching(/^transport\.port \(from PORT\): /));
+    expect(issues).toContainEqual(
+      expect.stringMatching(/^mcp\.defaultPageSize \(from config file .*config\.yaml\): /),
+    );
+    expect(issues).toContainEqual(
+      expect.stringMatching(/^mcp\.unknownSetting \(from config file .*\): unknown setting$/),
+    );
+  });
+
+  it("hints at the environment variable for missing required values", () => {
+    vi.stubEnv("GOOGLE_API_KEY", "");
+
+    expect(issuesOf(() => loadConfig())).toEqual([
+      "gemini.apiKey: a Google API key is required (set GOOGLE_API_KEY or gemini.apiKey in the config file)",
+    ]);
+  });
+
+  it("rejects unsupported and unreadable config files", async () => {
+    const toml = await configFile("config.toml", "");
+
+    expect(issuesOf(() => loadConfig({ configFile: toml }))[0]).toMatch(/unsupported format/);
+    expect(issuesOf(() => loadConfig({ configFile: join(directory, "missing.json") }))[0]).toMatch(
+      /missing\.json: ENOENT/,
+    );
+  });
+});
+
+describe("maskSecrets", () => {
+  it("masks the API key, static tokens and the HMAC secret", () => {
+    vi.stubEnv("MCP_CONFIG_FILE", "");
+    vi.stubEnv("GOOGLE_API_KEY", "short-key");
+    vi.stubEnv("MCP_AUTH_TOKENS", "static-token-0123456789-wxyz:read");
+    vi.stubEnv("MCP_AUTH_HMAC_SECRET", "an-hmac-secret-of-at-least-32-chars-abcd");
+
+    const masked = maskSecrets(loadConfig());
+    vi.unstubAllEnvs();
+
+    // Short values are masked without revealing their tail
+    expect(masked.gemini.apiKey).toBe("****");
+    expect(masked.auth.tokens).toEqual([{ token: "****wxyz", scope: "read" }]);
+    expect(masked.auth.hmacSecret).toBe("****abcd");
+  });
+});
@@ -1,73 +1,440 @@
 /**
  * Configuration management utilities
+ *
+ * The effective configuration is built from layers, later layers winning:
+ * 1. Built-in defaults
+ * 2. Config file (JSON or YAML) from --config or MCP_CONFIG_FILE
+ * 3. Environment variables
+ * 4. CLI flags
+ * The merged result is validated against serverConfigSchema.
  */
 
+import { readFileSync } from "node:fs";
+import { extname, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { ZodIssue } from "zod";
 import type { ServerConfig } from "../types/index.js";
+import { serverConfigSchema } from "./schema.js";
 
 /**
- * Default server configuration
+ * Partial configuration contributed by one layer
  */
-const DEFAULT_CONFIG: ServerConfig = {
-  server: {
-    name: "gemini-rag-mcp",
-    version: "1.0.0",
+export type ConfigLayer = Record<string, unknown>;
+
+type LoadConfigOptions = {
+  configFile?: string | undefined;
+  cli?: ConfigLayer;
+};
+
+/**
+ * Raised when configuration cannot be loaded or fails validation
+ * Lists every problem with its field path and where the value came from
+ */
+export class ConfigError extends Error {
+  override readonly name = "ConfigError";
+
+  constructor(readonly issues: string[]) {
+    super(
+      `Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`,
+    );
+  }
+}
+
+/**
+ * Built-in defaults
+ */
+function defaultConfig(): ServerConfig {
+  return {
+    server: {
+      name: "gemini-rag-mcp",
+      version: "1.0.0",
+    },
+    transport: {
+      type: "stdio",
+      port: 3000,
+    },
+    mcp: {
+      maxResponseSize: 100000,
+      defaultPageSize: 50,
+    },
+    logging: {
+      level: "info",
+      enableDebugConsole: false,
+    },
+    gemini: {
+      apiKey: "",
+      storeDisplayName: "default",
+      allowedStores: [],
+      model: "gemini-2.5-pro",
+      operationPolling: {
+        initialIntervalMs: 2000,
+        maxIntervalMs: 30000,
+        timeoutMs: 600000,
+      },
+      retry: {
+        maxRetries: 3,
+        initialDelayMs: 1000,
+        maxDelayMs: 30000,
+      },
+      chunking: {
+        byMimeType: {},
+      },
+    },
+    fileAccess: {
+      allowedRoots: [],
+      denyPatterns: [],
+      maxFileSizeBytes: 100 * 1024 * 1024,
+    },
+    contentScan: {
+      policy: "block",
+      detectPii: false,
+    },
+    auth: {
+      tokens: [],
+      hmacSecret: "",
+      allowUnauthenticated: false,
+    },
+    http: {
+      stateless: false,
+      idleTimeoutMs: 30 * 60 * 1000,
+      maxSessions: 100,
+    },
+    rateLimits: {
+      tools: {
+        // Queries are the most expensive calls; keep runaway agent loops in check
+        query: { requestsPerMinute: 30, burst: 10 },
+      },
+      httpPerCaller: { requestsPerMinute: 120, burst: 120 },
+      maxConcurrentGeminiCalls: 4,
+    },
+    queryCache: {
+      enabled: false,
+      ttlMs: 10 * 60 * 1000,
+      maxEntries: 500,
+      directory: "",
+    },
+    conversations: {
+      idleTimeoutMs: 30 * 60 * 1000,
+      maxConversations: 200,
+      maxTurns: 10,
+    },
+    prompts: [],
+  };
+}
+
+// Environment variable parsers; invalid values are passed through so the
+// schema reports them against the variable
+const asString = (value: string) => value;
+const asNumber = (value: string) => {
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? value : parsed;
+};
+const asBoolean = (value: string) =>
+  value === "true" ? true : value === "false" ? false : value;
+const asList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+const asJson = (value: string): unknown => JSON.parse(value);
+
+type EnvBinding = {
+  name: string;
+  path: string[];
+  parse: (value: string) => unknown;
+};
+
+const ENV_BINDINGS: EnvBinding[] = [
+  { name: "MCP_TRANSPORT", path: ["transport", "type"], parse: asString },
+  { name: "PORT", path: ["transport", "port"], parse: asNumber },
+  { name: "LOG_LEVEL", path: ["logging", "level"], parse: asString },
+  { name: "DEBUG", path: ["logging", "enableDebugConsole"], parse: asBoolean },
+  { name: "GOOGLE_API_KEY", path: ["gemini", "apiKey"], parse: asString },
+  { name: "STORE_DISPLAY_NAME", path: ["gemini", "storeDisplayName"], parse: asString },
+  { name: "ALLOWED_STORES", path: ["gemini", "allowedStores"], parse: asList },
+  { name: "GEMINI_MODEL", path: ["gemini", "model"], parse: asString },
+  {
+    name: "OPERATION_TIMEOUT_MS",
+    path: ["gemini", "operationPolling", "timeoutMs"],
+    parse: asNumber,
   },
-  mcp: {
-    maxResponseSize: 100000,
-    defaultPageSize: 50,
+  { name: "GEMINI_MAX_RETRIES", path: ["gemini", "retry", "maxRetries"], parse: asNumber },
+  {
+    name: "CHUNK_MAX_TOKENS",
+    path: ["gemini", "chunking", "default", "maxTokensPerChunk"],
+    parse: asNumber,
   },
-  logging: {
-    level: process.env.LOG_LEVEL ?? "info",
-    enableDebugConsole: process.env.DEBUG === "true",
+  {
+    name: "CHUNK_OVERLAP_TOKENS",
+    path: ["gemini", "chunking", "default", "maxOverlapTokens"],
+    parse: asNumber,
   },
-  gemini: {
-    apiKey: process.env.GOOGLE_API_KEY ?? "",
-    storeDisplayName: process.env.STORE_DISPLAY_NAME ?? "default",
-    model: process.env.GEMINI_MODEL ?? "gemini-2.5-pro",
+  {
+    name: "CHUNKING_BY_MIME_TYPE",
+    path: ["gemini", "chunking", "byMimeType"],
+    parse: asJson,
   },
-};
+  { name: "UPLOAD_ALLOWED_ROOTS", path: ["fileAccess", "allowedRoots"], parse: asList },
+  { name: "UPLOAD_DENY_PATTERNS", path: ["fileAccess", "denyPatterns"], parse: asList },
+  {
+    name: "UPLOAD_MAX_FILE_SIZE_BYTES",
+    path: ["fileAccess", "maxFileSizeBytes"],
+    parse: asNumber,
+  },
+  { name: "CONTENT_SCAN_POLICY", path: ["contentScan", "policy"], parse: asString },
+  { name: "CONTENT_SCAN_PII", path: ["contentScan", "detectPii"], parse: asBoolean },
+  { name: "MCP_AUTH_TOKENS", path: ["auth", "tokens"], parse: parseAuthTokens },
+  { name: "MCP_AUTH_HMAC_SECRET", path: ["auth", "hmacSecret"], parse: asString },
+  {
+    name: "MCP_AUTH_ALLOW_UNAUTHENTICATED",
+    path: ["auth", "allowUnauthenticated"],
+    parse: asBoolean,
+  },
+  { name: "MCP_HTTP_STATELESS", path: ["http", "stateless"], parse: asBoolean },
+  {
+    name: "MCP_SESSION_IDLE_TIMEOUT_MS",
+    path: ["http", "idleTimeoutMs"],
+    parse: asNumber,
+  },
+  { name: "MCP_MAX_SESSIONS", path: ["http", "maxSessions"], parse: asNumber },
+  { name: "TOOL_RATE_LIMITS", path: ["rateLimits", "tools"], parse: asJson },
+  {
+    name: "HTTP_RATE_LIMIT_PER_MINUTE",
+    path: ["rateLimits", "httpPerCaller"],
+    parse: (value) => {
+      const perMinute = asNumber(value);
+      return perMinute === 0
+        ? null
+        : { requestsPerMinute: perMinute, burst: perMinute };
+    },
+  },
+  {
+    name: "GEMINI_MAX_CONCURRENT_CALLS",
+    path: ["rateLimits", "maxConcurrentGeminiCalls"],
+    parse: asNumber,
+  },
+  { name: "QUERY_CACHE_ENABLED", path: ["queryCache", "enabled"], parse: asBoolean },
+  { name: "QUERY_CACHE_TTL_MS", path: ["queryCache", "ttlMs"], parse: asNumber },
+  { name: "QUERY_CACHE_MAX_ENTRIES", path: ["queryCache", "maxEntries"], parse: asNumber },
+  { name: "QUERY_CACHE_DIR", path: ["queryCache", "directory"], parse: asString },
+  {
+    name: "CONVERSATION_IDLE_TIMEOUT_MS",
+    path: ["conversations", "idleTimeoutMs"],
+    parse: asNumber,
+  },
+  { name: "MAX_CONVERSATIONS", path: ["conversations", "maxConversations"], parse: asNumber },
+  { name: "CONVERSATION_MAX_TURNS", path: ["conversations", "maxTurns"], parse: asNumber },
+];
 
 /**
- * Validate server configuration
+ * Parse MCP_AUTH_TOKENS
+ * Format: comma-separated "token:scope" entries, e.g. "abc...:read,def...:admin"
  */
-export function validateConfig(config: ServerConfig): boolean {
-  try {
-    // Validate MCP configuration
-    if (config.mcp.maxResponseSize <= 0) {
-      throw new Error("MCP maxResponseSize must be positive");
+function parseAuthTokens(value: string): unknown {
+  return asList(value).map((entry) => {
+    const separator = entry.lastIndexOf(":");
+    if (separator <= 0) {
+      throw new Error('entries must have the form "token:scope"');
     }
+    return {
+      token: entry.slice(0, separator),
+      scope: entry.slice(separator + 1),
+    };
+  });
+}
 
-    if (config.mcp.defaultPageSize <= 0) {
-      throw new Error("MCP defaultPageSize must be positive");
-    }
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
-    // Validate logging configuration
-    const validLogLevels = ["error", "warn", "info", "debug"];
-    if (!validLogLevels.includes(config.logging.level)) {
-      throw new Error(`Invalid log level: ${config.logging.level}`);
+/**
+ * Merge a layer into the configuration, recording the source of every value set
+ * Objects are merged key by key; arrays and scalars replace the previous value
+ */
+function mergeLayer(
+  target: Record<string, unknown>,
+  layer: Record<string, unknown>,
+  source: string,
+  sources: Map<string, string>,
+  path: string[] = [],
+): void {
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined) {
+      continue;
     }
-
-    // Validate Gemini configuration
-    if (!config.gemini.apiKey) {
-      throw new Error("GOOGLE_API_KEY environment variable is required");
+    const valuePath = [...path, key];
+    const current = target[key];
+    if (isPlainObject(value) && isPlainObject(current)) {
+      mergeLayer(current, value, source, sources, valuePath);
+    } else {
+      target[key] = value;
+      sources.set(valuePath.join("."), source);
     }
+  }
+}
 
-    if (!config.gemini.storeDisplayName) {
-      throw new Error("STORE_DISPLAY_NAME environment variable is required");
-    }
+/**
+ * Build a nested layer from a path and value
+ */
+function layerAt(path: string[], value: unknown): ConfigLayer {
+  return path.reduceRight<unknown>(
+    (nested, key) => ({ [key]: nested }),
+    value,
+  ) as ConfigLayer;
+}
 
-    return true;
+/**
+ * Read a JSON or YAML config file
+ */
+function readConfigFile(filePath: string): ConfigLayer {
+  const format = extname(filePath).toLowerCase();
+  if (![".json", ".yaml", ".yml"].includes(format)) {
+    throw new ConfigError([
+      `config file ${filePath}: unsupported format (use .json, .yaml or .yml)`,
+    ]);
+  }
+
+  let parsed: unknown;
+  try {
+    const content = readFileSync(filePath, "utf8");
+    parsed = format === ".json" ? JSON.parse(content) : parseYaml(content);
   } catch (error) {
-    console.error("Configuration validation failed:", error);
-    return false;
+    throw new ConfigError([
+      `config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    ]);
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError([
+      `config file ${filePath}: top level must be an object`,
+    ]);
+  }
+  return parsed;
+}
+
+/**
+ * Describe a problem with a field, naming the layer that set it
+ */
+function describeField(
+  path: string[],
+  message: string,
+  sources: Map<string, string>,
+): string {
+  const field = path.join(".") || "(root)";
+
+  // Find the source of the field or its closest ancestor
+  let source: string | undefined;
+  for (let length = path.length; length > 0 && !source; length--) {
+    source = sources.get(path.slice(0, length).join("."));
+  }
+
+  if (source) {
+    return `${field} (from ${source}): ${message}`;
+  }
+
+  const binding = ENV_BINDINGS.find(
+    (candidate) => candidate.path.join(".") === field,
+  );
+  const hint = binding ? ` (set ${binding.name} or ${field} in the config file)` : "";
+  return `${field}: ${message}${hint}`;
+}
+
+/**
+ * Describe a validation issue; unknown keys are reported individually
+ */
+function describeIssue(issue: ZodIssue, sources: Map<string, string>): string[] {
+  const path = issue.path.map(String);
+  if (issue.code === "unrecognized_keys") {
+    return issue.keys.map((key) =>
+      describeField([...path, key], "unknown setting", sources),
+    );
+  }
+  return [describeField(path, issue.message, sources)];
+}
+
+/**
+ * Load and validate the effective configuration
+ * @throws ConfigError listing every invalid field
+ */
+export function loadConfig(options: LoadConfigOptions = {}): ServerConfig {
+  const merged = defaultConfig() as unknown as Record<string, unknown>;
+  const sources = new Map<string, string>();
+  const errors: string[] = [];
+
+  // Config file
+  const configFile = options.configFile ?? process.env.MCP_CONFIG_FILE;
+  if (configFile) {
+    const filePath = resolve(configFile);
+    mergeLayer(merged, readConfigFile(filePath), `config file ${filePath}`, sources);
+  }
+
+  // Environment variables (empty values count as unset)
+  for (const binding of ENV_BINDINGS) {
+    const raw = process.env[binding.name];
+    if (!raw) {
+      continue;
+    }
+    try {
+      mergeLayer(
+        merged,
+        layerAt(binding.path, binding.parse(raw)),
+        binding.name,
+        sources,
+      );
+    } catch (error) {
+      errors.push(
+        `${binding.path.join(".")} (from ${binding.name}): ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  // CLI flags
+  if (options.cli) {
+    mergeLayer(merged, options.cli, "command line", sources);
+  }
+
+  const result = serverConfigSchema.safeParse(merged);
+  if (!result.success) {
+    errors.push(
+      ...result.error.issues.flatMap((issue) => describeIssue(issue, sources)),
+    );
+  }
+
+  if (errors.length > 0 || !result.success) {
+    throw new ConfigError(errors);
+  }
+
+  // Optional fields come from JSON, YAML or env and are absent rather than undefined
+  return result.data as ServerConfig;
+}
+
+/**
+ * Mask a secret, keeping the last characters of long values for identification
+ */
+function maskSecret(value: string): string {
+  if (!value) {
+    return value;
   }
+  return value.length >= 16 ? `****${value.slice(-4)}` : "****";
 }
 
 /**
- * Load configuration from environment variables and defaults
+ * Copy of the configuration with API keys, tokens and secrets masked
  */
-export function loadConfig(): ServerConfig {
+export function maskSecrets(config: ServerConfig): ServerConfig {
   return {
-    ...DEFAULT_CONFIG,
+    ...config,
+    gemini: { ...config.gemini, apiKey: maskSecret(config.gemini.apiKey) },
+    auth: {
+      ...config.auth,
+      tokens: config.auth.tokens.map((entry) => ({
+        ...entry,
+        token: maskSecret(entry.token),
+      })),
+      hmacSecret: maskSecret(config.auth.hmacSecret),
+    },
   };
 }
@@ -0,0 +1,228 @@
+/**
+ * Zod schema for the server configuration
+ * Mirrors ServerConfig; every layer (defaults, file, env, CLI) is merged
+ * before the result is validated against it
+ */
+
+import { z } from "zod";
+import { chunkingConfigSchema } from "../utils/chunking.js";
+import { AUTH_SCOPES } from "../security/auth.js";
+import type {
+  ConversationConfig,
+  QueryCacheConfig,
+  RateLimitConfig,
+  TransportType,
+} from "../types/index.js";
+import {
+  BUILTIN_PROMPTS,
+  STANDARD_PROMPT_ARGUMENTS,
+  templateVariables,
+} from "../prompts/prompt-templates.js";
+
+const TRANSPORT_TYPES = ["stdio", "http"] as const satisfies readonly TransportType[];
+
+const positiveInt = z.number().int().positive();
+
+const rateLimitRuleSchema = z
+  .object({
+    requestsPerMinute: z.number().positive(),
+    burst: z.number().min(1),
+  })
+  .strict();
+
+const identifier = z
+  .string()
+  .regex(/^[A-Za-z][A-Za-z0-9_]*$/, "must start with a letter and contain only letters, digits and underscores");
+
+const promptTemplateSchema = z
+  .object({
+    name: identifier,
+    title: z.string().min(1).optional(),
+    description: z.string().min(1),
+    arguments: z
+      .array(
+        z
+          .object({
+            name: identifier.refine(
+              (name) => !STANDARD_PROMPT_ARGUMENTS.includes(name),
+              { message: `${STANDARD_PROMPT_ARGUMENTS.join(" and ")} are added to every prompt automatically` },
+            ),
+            description: z.string().optional(),
+            required: z.boolean().optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+    template: z.string().min(1),
+  })
+  .strict()
+  .superRefine((prompt, ctx) => {
+    const declared = (prompt.arguments ?? []).map((argument) => argument.name);
+    declared.forEach((name, index) => {
+      if (declared.indexOf(name) !== index) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `duplicate argument "${name}"`,
+          path: ["arguments", index, "name"],
+        });
+      }
+    });
+    for (const name of templateVariables(prompt.template)) {
+      if (!declared.includes(name) && !STANDARD_PROMPT_ARGUMENTS.includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `uses undeclared argument "${name}"`,
+          path: ["template"],
+        });
+      }
+    }
+  });
+
+const promptsSchema = z.array(promptTemplateSchema).superRefine((prompts, ctx) => {
+  const builtinNames = BUILTIN_PROMPTS.map((prompt) => prompt.name);
+  const names = prompts.map((prompt) => prompt.name);
+  names.forEach((name, index) => {
+    if (builtinNames.includes(name) || names.indexOf(name) !== index) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: builtinNames.includes(name)
+          ? `"${name}" is a built-in prompt`
+          : `duplicate prompt name "${name}"`,
+        path: [index, "name"],
+      });
+    }
+  });
+});
+
+export const serverConfigSchema = z
+  .object({
+    server: z
+      .object({
+        name: z.string().min(1),
+        version: z.string().min(1),
+      })
+      .strict(),
+    transport: z
+      .object({
+        type: z.enum(TRANSPORT_TYPES),
+        port: z.number().int().min(1).max(65535),
+      })
+      .strict(),
+    mcp: z
+      .object({
+        maxResponseSize: z.number().int().min(1000),
+        defaultPageSize: positiveInt,
+      })
+      .strict(),
+    logging: z
+      .object({
+        level: z.enum(["error", "warn", "info", "debug"]),
+        enableDebugConsole: z.boolean(),
+      })
+      .strict(),
+    gemini: z
+      .object({
+        apiKey: z.string().min(1, "a Google API key is required"),
+        storeDisplayName: z.string().min(1),
+        allowedStores: z.array(z.string().min(1)),
+        model: z.string().min(1),
+        operationPolling: z
+          .object({
+            initialIntervalMs: positiveInt,
+            maxIntervalMs: positiveInt,
+            timeoutMs: positiveInt,
+          })
+          .strict()
+          .refine(
+            ({ initialIntervalMs, maxIntervalMs }) =>
+              maxIntervalMs >= initialIntervalMs,
+            {
+              message: "must not be less than initialIntervalMs",
+              path: ["maxIntervalMs"],
+            },
+          ),
+        retry: z
+          .object({
+            maxRetries: z.number().int().min(0).max(10),
+            initialDelayMs: positiveInt,
+            maxDelayMs: positiveInt,
+          })
+          .strict()
+          .refine(
+            ({ initialDelayMs, maxDelayMs }) => maxDelayMs >= initialDelayMs,
+            {
+              message: "must not be less than initialDelayMs",
+              path: ["maxDelayMs"],
+            },
+          ),
+        chunking: z
+          .object({
+            default: chunkingConfigSchema.optional(),
+            byMimeType: z.record(chunkingConfigSchema),
+          })
+          .strict(),
+      })
+      .strict(),
+    fileAccess: z
+      .object({
+        allowedRoots: z.array(z.string().min(1)),
+        denyPatterns: z.array(z.string().min(1)),
+        maxFileSizeBytes: positiveInt,
+      })
+      .strict(),
+    contentScan: z
+      .object({
+        policy: z.enum(["block", "redact", "warn", "off"]),
+        detectPii: z.boolean(),
+      })
+      .strict(),
+    auth: z
+      .object({
+        tokens: z.array(
+          z
+            .object({
+              token: z.string().min(16, "tokens must be at least 16 characters long"),
+              scope: z.enum(AUTH_SCOPES),
+            })
+            .strict(),
+        ),
+        hmacSecret: z
+          .string()
+          .refine((secret) => secret === "" || secret.length >= 32, {
+            message: "must be at least 32 characters long (or empty to disable)",
+          }),
+        allowUnauthenticated: z.boolean(),
+      })
+      .strict(),
+    http: z
+      .object({
+        stateless: z.boolean(),
+        idleTimeoutMs: positiveInt,
+        maxSessions: positiveInt,
+      })
+      .strict(),
+    rateLimits: z
+      .object({
+        tools: z.record(rateLimitRuleSchema),
+        httpPerCaller: rateLimitRuleSchema.nullable(),
+        maxConcurrentGeminiCalls: positiveInt,
+      })
+      .strict() satisfies z.ZodType<RateLimitConfig>,
+    queryCache: z
+      .object({
+        enabled: z.boolean(),
+        ttlMs: positiveInt,
+        maxEntries: positiveInt,
+        directory: z.string(),
+      })
+      .strict() satisfies z.ZodType<QueryCacheConfig>,
+    conversations: z
+      .object({
+        idleTimeoutMs: positiveInt,
+        maxConversations: positiveInt,
+        maxTurns: positiveInt,
+      })
+      .strict() satisfies z.ZodType<ConversationConfig>,
+    prompts: promptsSchema,
+  })
+  .strict();
@@ -0,0 +1,135 @@
+/**
+ * In-memory history of multi-turn query conversations
+ *
+ * A conversation is identified by a caller-chosen id and holds the recent
+ * questions with their grounded answers from one store. Conversations expire
+ * after a period without queries, and the number kept is capped.
+ */
+
+import type { ConversationConfig, ConversationTurn } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+type Conversation = {
+  turns: ConversationTurn[];
+  // Caller that started the conversation; other callers cannot use it
+  owner: string | undefined;
+  // Store the answers were grounded in; the history is not reused for another
+  storeName: string;
+  lastActivityAt: number;
+};
+
+export class ConversationStore {
+  private conversations = new Map<string, Conversation>();
+
+  constructor(private readonly config: ConversationConfig) {}
+
+  /**
+   * Turns of a conversation, oldest first (empty for a new conversation)
+   * @param owner - Authenticated caller, if any
+   * @param storeName - Store the next question is asked against
+   * @throws Error if the conversation belongs to another caller or store
+   */
+  history(
+    conversationId: string,
+    owner: string | undefined,
+    storeName: string,
+  ): ConversationTurn[] {
+    this.prune();
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return [];
+    }
+    this.assertOwner(conversationId, conversation, owner);
+    this.assertStore(conversationId, conversation, storeName);
+    return [...conversation.turns];
+  }
+
+  /**
+   * Record a question and its answer, starting the conversation if needed
+   * @returns Number of turns now kept for the conversation
+   */
+  append(
+    conversationId: string,
+    owner: string | undefined,
+    storeName: string,
+    turn: ConversationTurn,
+  ): number {
+    this.prune();
+    const conversation = this.conversations.get(conversationId) ?? {
+      turns: [],
+      owner,
+      storeName,
+      lastActivityAt: Date.now(),
+    };
+    this.assertOwner(conversationId, conversation, owner);
+    this.assertStore(conversationId, conversation, storeName);
+
+    conversation.turns.push(turn);
+    conversation.turns.splice(0, conversation.turns.length - this.config.maxTurns);
+    conversation.lastActivityAt = Date.now();
+
+    // Re-insert so iteration order is least recently used first
+    this.conversations.delete(conversationId);
+    this.conversations.set(conversationId, conversation);
+    for (const oldest of this.conversations.keys()) {
+      if (this.conversations.size <= this.config.maxConversations) {
+        break;
+      }
+      this.conversations.delete(oldest);
+      logger.info(`Conversation dropped (limit reached): ${oldest}`);
+    }
+
+    return conversation.turns.length;
+  }
+
+  /**
+   * Forget a conversation
+   * @returns Whether there was any history to clear
+   */
+  reset(conversationId: string, owner: string | undefined): boolean {
+    this.prune();
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return false;
+    }
+    this.assertOwner(conversationId, conversation, owner);
+    return this.conversations.delete(conversationId);
+  }
+
+  private assertOwner(
+    conversationId: string,
+    conversation: Conversation,
+    owner: string | undefined,
+  ): void {
+    if (conversation.owner !== owner) {
+      throw new Error(
+        `Conversation "${conversationId}" belongs to another client. Use a different conversationId.`,
+      );
+    }
+  }
+
+  private assertStore(
+    conversationId: string,
+    conversation: Conversation,
+    storeName: string,
+  ): void {
+    if (conversation.storeName !== storeName) {
+      throw new Error(
+        `Conversation "${conversationId}" was started on store ${conversation.storeName}, not ${storeName}. Use a different conversationId for each store.`,
+      );
+    }
+  }
+
+  /**
+   * Drop conversations idle for longer than the timeout
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.config.idleTimeoutMs;
+    for (const [conversationId, conversation] of this.conversations) {
+      if (conversation.lastActivityAt < cutoff) {
+        this.conversations.delete(conversationId);
+        logger.debug(`Conversation expired: ${conversationId}`);
+      }
+    }
+  }
+}
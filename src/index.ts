@@ -7,17 +7,56 @@
  */
 
 import { Command } from "commander";
-import type { TransportType } from "./types/index.js";
-import { loadConfig, validateConfig } from "./config/index.js";
+import type { AuthScope, ServerConfig } from "./types/index.js";
+import type { ConfigLayer } from "./config/index.js";
+import { ConfigError, loadConfig, maskSecrets } from "./config/index.js";
 import { MCPServerImpl } from "./server/mcp-server.js";
 import { logger } from "./utils/logger.js";
+import { AUTH_SCOPES, issueHmacToken } from "./security/auth.js";
 
 type CLIOptions = {
-  transport: string;
-  port: string;
-  logLevel: string;
+  config?: string;
+  transport?: string;
+  port?: string;
+  logLevel?: string;
+  stateless?: boolean;
 };
 
+type IssueTokenOptions = {
+  subject: string;
+  scope: string;
+  ttl: string;
+};
+
+/**
+ * Configuration layer from command line flags; unset flags leave lower layers in place
+ */
+function cliOverrides(options: CLIOptions): ConfigLayer {
+  return {
+    transport: {
+      type: options.transport,
+      port: options.port === undefined ? undefined : Number(options.port),
+    },
+    logging: { level: options.logLevel },
+    http: { stateless: options.stateless },
+  };
+}
+
+/**
+ * Load configuration, exiting with the list of problems if it is invalid
+ */
+function loadConfigOrExit(configFile: string | undefined, cli: ConfigLayer): ServerConfig {
+  try {
+    return loadConfig({ configFile, cli });
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
 const program = new Command();
 
 // Configure CLI
@@ -27,24 +66,19 @@ program
   .version("1.0.0");
 
 program
-  .option("-t, --transport <type>", "Transport type (stdio|http)", "stdio")
+  .option("-c, --config <path>", "Config file (JSON or YAML)")
+  .option("-t, --transport <type>", "Transport type (stdio|http)")
+  .option("-p, --port <number>", "Port for HTTP transport")
+  .option("--log-level <level>", "Log level (error|warn|info|debug)")
   .option(
-    "-p, --port <number>",
-    "Port for HTTP transport",
-    process.env.PORT ?? "3000",
+    "--stateless",
+    "HTTP transport without sessions (one server per request, no SSE stream)",
   )
-  .option("--log-level <level>", "Log level (error|warn|info|debug)", "info")
   .action(async (options: CLIOptions) => {
     try {
-      // Validate transport type
-      const transport = options.transport as TransportType;
-      if (!["stdio", "http"].includes(transport)) {
-        console.error('Error: Transport must be either "stdio" or "http"');
-        process.exit(1);
-      }
-
-      // Load configuration
-      const config = loadConfig();
+      // Load configuration: defaults < config file < environment < CLI flags
+      const config = loadConfigOrExit(options.config, cliOverrides(options));
+      const { transport } = config;
 
       // Initialize logger with file output
       const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
@@ -52,34 +86,26 @@ program
       const logFileName = `${logDir}/mcp-server-${timestamp}.log`;
 
       logger.initialize({
-        level: options.logLevel,
+        level: config.logging.level,
         logFileName,
-        enableConsole: transport === "http",
+        enableConsole: transport.type === "http",
         enableDebugConsole: config.logging.enableDebugConsole,
       });
 
       logger.info("Starting MCP Server", {
-        transport,
-        port: transport === "http" ? parseInt(options.port) : undefined,
+        transport: transport.type,
+        port: transport.type === "http" ? transport.port : undefined,
+        stateless: transport.type === "http" ? config.http.stateless : undefined,
       });
 
-      // Validate configuration
-      if (!validateConfig(config)) {
-        console.error("Invalid configuration");
-        process.exit(1);
-      }
-
       // Initialize and start MCP server
       const mcpServer = new MCPServerImpl();
 
       mcpServer.initialize(config);
-      await mcpServer.start({
-        type: transport,
-        port: transport === "http" ? parseInt(options.port) : undefined,
-      });
+      await mcpServer.start(transport);
 
       // Keep process alive for stdio transport
-      if (transport === "stdio") {
+      if (transport.type === "stdio") {
         process.stdin.resume();
         // Don't log to stdout for stdio transport as it interferes with MCP protocol
       } else {
@@ -99,6 +125,56 @@ program
     }
   });
 
+// Show the effective configuration
+program
+  .command("config")
+  .description("Inspect the server configuration")
+  .command("print")
+  .description(
+    "Print the effective configuration with secrets masked (honours --config and the other server flags)",
+  )
+  .action(() => {
+    const options = program.opts<CLIOptions>();
+    const config = loadConfigOrExit(options.config, cliOverrides(options));
+    console.log(JSON.stringify(maskSecrets(config), null, 2));
+  });
+
+// Issue an HMAC-signed bearer token for the HTTP transport
+program
+  .command("issue-token")
+  .description(
+    "Issue an HMAC-signed bearer token (requires auth.hmacSecret / MCP_AUTH_HMAC_SECRET; honours --config)",
+  )
+  .requiredOption("--subject <name>", "Caller identity recorded in the token")
+  .option("--scope <scope>", `Token scope (${AUTH_SCOPES.join("|")})`, "read")
+  .option("--ttl <seconds>", "Token lifetime in seconds", "86400")
+  .action((options: IssueTokenOptions) => {
+    // Same layered configuration as the server, so the token verifies there
+    const rootOptions = program.opts<CLIOptions>();
+    const config = loadConfigOrExit(rootOptions.config, cliOverrides(rootOptions));
+    const secret = config.auth.hmacSecret;
+    if (!secret) {
+      console.error(
+        "Error: no HMAC secret configured. Set MCP_AUTH_HMAC_SECRET or auth.hmacSecret in the config file",
+      );
+      process.exit(1);
+    }
+
+    const scope = options.scope as AuthScope;
+    if (!AUTH_SCOPES.includes(scope)) {
+      console.error(`Error: scope must be one of ${AUTH_SCOPES.join(", ")}`);
+      process.exit(1);
+    }
+
+    const ttl = Number(options.ttl);
+    if (!Number.isInteger(ttl) || ttl <= 0) {
+      console.error("Error: ttl must be a positive number of seconds");
+      process.exit(1);
+    }
+
+    console.log(issueHmacToken(secret, options.subject, scope, ttl));
+  });
+
 // Handle uncaught exceptions
 process.on("uncaughtException", (error) => {
   console.error("Uncaught exception:", error);
@@ -0,0 +1,117 @@
+/**
+ * In-process manager for asynchronous upload jobs
+ */
+
+import { randomUUID } from "node:crypto";
+import { logger } from "../utils/logger.js";
+
+export type UploadJobStatus = "pending" | "succeeded" | "failed";
+
+export type UploadJob = {
+  jobId: string;
+  status: UploadJobStatus;
+  kind: "file" | "content";
+  displayName: string;
+  storeName: string;
+  createdAt: string;
+  completedAt?: string | undefined;
+  documentName?: string | undefined;
+  error?: string | undefined;
+};
+
+type TrackedJob = {
+  job: UploadJob;
+  // Caller that started the job; other callers cannot see it
+  owner: string | undefined;
+};
+
+/**
+ * Maximum number of finished jobs kept for status queries
+ * Pending jobs are never evicted
+ */
+const MAX_FINISHED_JOBS = 200;
+
+export class UploadJobManager {
+  private jobs = new Map<string, TrackedJob>();
+
+  /**
+   * @param onJobSucceeded - Called after a job has uploaded its document
+   */
+  constructor(private readonly onJobSucceeded?: () => void) {}
+
+  /**
+   * Register a job and run the upload task in the background
+   * Returns the pending job immediately
+   * @param owner - Authenticated caller, if any
+   */
+  start(
+    info: Pick<UploadJob, "kind" | "displayName" | "storeName">,
+    owner: string | undefined,
+    task: () => Promise<{ documentName: string }>,
+  ): UploadJob {
+    const job: UploadJob = {
+      jobId: randomUUID(),
+      status: "pending",
+      ...info,
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.jobId, { job, owner });
+    logger.info(`Upload job started: ${job.jobId} (${job.displayName})`);
+
+    task()
+      .then((result) => {
+        job.status = "succeeded";
+        job.documentName = result.documentName;
+        logger.info(`Upload job succeeded: ${job.jobId}`);
+        this.onJobSucceeded?.();
+      })
+      .catch((error: unknown) => {
+        job.status = "failed";
+        job.error = error instanceof Error ? error.message : String(error);
+        logger.error(`Upload job failed: ${job.jobId}`, { error });
+      })
+      .finally(() => {
+        job.completedAt = new Date().toISOString();
+        this.evictFinishedJobs();
+      });
+
+    return { ...job };
+  }
+
+  /**
+   * Get a snapshot of a job by id
+   * @param owner - Authenticated caller; jobs of other callers are not found
+   */
+  get(jobId: string, owner: string | undefined): UploadJob | undefined {
+    const tracked = this.jobs.get(jobId);
+    return tracked && tracked.owner === owner ? { ...tracked.job } : undefined;
+  }
+
+  /**
+   * List snapshots of the caller's jobs, newest first
+   * @param owner - Authenticated caller; jobs of other callers are left out
+   */
+  list(owner: string | undefined, status?: UploadJobStatus): UploadJob[] {
+    return [...this.jobs.values()]
+      .filter(
+        (tracked) =>
+          tracked.owner === owner &&
+          (status === undefined || tracked.job.status === status),
+      )
+      .reverse()
+      .map((tracked) => ({ ...tracked.job }));
+  }
+
+  /**
+   * Drop the oldest finished jobs once the retention limit is exceeded
+   */
+  private evictFinishedJobs(): void {
+    const finished = [...this.jobs.values()].filter(
+      (tracked) => tracked.job.status !== "pending",
+    );
+    const excess = finished.length - MAX_FINISHED_JOBS;
+    for (const { job } of finished.slice(0, Math.max(0, excess))) {
+      this.jobs.delete(job.jobId);
+    }
+  }
+}
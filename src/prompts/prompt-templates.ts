@@ -0,0 +1,119 @@
+/**
+ * Built-in prompt templates and template rendering
+ *
+ * Templates use {{argument}} placeholders and {{#argument}}...{{/argument}}
+ * sections, which are kept only when the argument is given. Every prompt
+ * also accepts the standard store and metadataFilter arguments.
+ */
+
+import type { PromptTemplateConfig } from "../types/index.js";
+
+/**
+ * Arguments added to every prompt; templates must not declare them
+ */
+export const STANDARD_PROMPT_ARGUMENTS = ["store", "metadataFilter"];
+
+export const BUILTIN_PROMPTS: PromptTemplateConfig[] = [
+  {
+    name: "answer_with_citations",
+    title: "Answer with citations",
+    description:
+      "Answer a question strictly from the knowledge base, citing the supporting documents",
+    arguments: [
+      { name: "question", description: "The question to answer", required: true },
+    ],
+    template: [
+      "Answer the following question using only the knowledge base.",
+      "",
+      "Question: {{question}}",
+      "",
+      "Search with the `query` tool (use inlineCitations: true) and base the answer solely on what it returns. Cite every statement with its [n] marker and list the cited documents at the end. If the knowledge base does not contain the answer, say so instead of answering from general knowledge.",
+    ].join("\n"),
+  },
+  {
+    name: "summarize_document",
+    title: "Summarize document",
+    description: "Summarize one document from the knowledge base",
+    arguments: [
+      {
+        name: "document",
+        description: "Display name or document name of the document",
+        required: true,
+      },
+      { name: "focus", description: "Aspect to focus the summary on" },
+    ],
+    template: [
+      "Summarize the document \"{{document}}\" from the knowledge base.",
+      "{{#focus}}Focus on: {{focus}}{{/focus}}",
+      "",
+      "Use `list_documents` to confirm the document exists, then use the `query` tool to retrieve its main points. Structure the summary as a short overview followed by key points, and cite the document for each point. Only include information retrieved from the knowledge base.",
+    ].join("\n"),
+  },
+  {
+    name: "compare_documents",
+    title: "Compare documents",
+    description: "Compare two documents from the knowledge base",
+    arguments: [
+      { name: "first", description: "First document (display name)", required: true },
+      { name: "second", description: "Second document (display name)", required: true },
+      { name: "aspects", description: "Aspects to compare, e.g. \"pricing, limits\"" },
+    ],
+    template: [
+      "Compare the documents \"{{first}}\" and \"{{second}}\" from the knowledge base.",
+      "{{#aspects}}Compare them on: {{aspects}}{{/aspects}}",
+      "",
+      "Use the `query` tool to retrieve what each document says, querying each document separately where needed. Present the similarities and differences side by side, cite the source document for every point, and state explicitly when one document does not cover an aspect.",
+    ].join("\n"),
+  },
+  {
+    name: "onboarding_brief",
+    title: "Onboarding brief",
+    description:
+      "Write an onboarding brief on a topic for a new team member from the knowledge base",
+    arguments: [
+      { name: "topic", description: "Topic, team or system to cover", required: true },
+      { name: "audience", description: "Role of the reader, e.g. \"backend engineer\"" },
+    ],
+    template: [
+      "Write an onboarding brief about \"{{topic}}\"{{#audience}} for a new {{audience}}{{/audience}} using the knowledge base.",
+      "",
+      "Use the `query` tool to find the purpose, key concepts, processes, tools and contacts relevant to the topic. Organize the brief into short sections with the most important information first, cite the source documents, and end with a list of open questions the knowledge base did not answer.",
+    ].join("\n"),
+  },
+];
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Names of all placeholders and sections used in a template
+ */
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(SECTION_PATTERN)) {
+    names.add(match[1] ?? "");
+  }
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1] ?? "");
+  }
+  return [...names];
+}
+
+/**
+ * Fill a template with argument values
+ * Sections of missing arguments are dropped, and lines left empty by them removed
+ */
+export function renderPromptTemplate(
+  template: string,
+  args: Record<string, string | undefined>,
+): string {
+  return template
+    .replace(SECTION_PATTERN, (_section, name: string, body: string) =>
+      args[name] ? body : "\u0000",
+    )
+    .replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) => args[name] ?? "")
+    .split("\n")
+    .filter((line) => line !== "\u0000")
+    .join("\n")
+    .replaceAll("\u0000", "");
+}
@@ -0,0 +1,135 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterEach, describe, expect, it } from "vitest";
+import type { AuthConfig, AuthScope } from "../types/index.js";
+import { createAuthMiddleware, isAuthEnabled, issueHmacToken } from "./auth.js";
+
+const SECRET = "test-hmac-secret";
+
+const REQUIRED_SCOPES: Record<string, AuthScope> = {
+  query: "read",
+  upload_file: "upload",
+  delete_store: "admin",
+};
+
+function authConfig(overrides: Partial<AuthConfig>): AuthConfig {
+  return { tokens: [], hmacSecret: "", allowUnauthenticated: false, ...overrides };
+}
+
+const READ_TOKEN = { token: "read-token", scope: "read" } as const;
+
+function toolCall(name: string, id = 1) {
+  return { jsonrpc: "2.0", id, method: "tools/call", params: { name, arguments: {} } };
+}
+
+describe("HTTP authentication", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+  });
+
+  async function start(config: AuthConfig): Promise<string> {
+    const app = express();
+    app.use(express.json());
+    const middleware = createAuthMiddleware(config, (tool) => REQUIRED_SCOPES[tool]);
+    app.post("/mcp", ...middleware, (req, res) => {
+      res.json({ clientId: req.auth?.clientId, scopes: req.auth?.scopes });
+    });
+    const listening = app.listen(0, "127.0.0.1");
+    server = listening;
+    await new Promise((resolve) => listening.once("listening", resolve));
+    return `http://127.0.0.1:${String((listening.address() as AddressInfo).port)}/mcp`;
+  }
+
+  async function post(url: string, body: unknown, token?: string) {
+    return await fetch(url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(token !== undefined && { authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("rejects requests without a valid bearer token", async () => {
+    const url = await start(authConfig({ tokens: [READ_TOKEN] }));
+
+    expect((await post(url, toolCall("query"))).status).toBe(401);
+    expect((await post(url, toolCall("query"), "wrong-token")).status).toBe(401);
+  });
+
+  it("grants static tokens their scope and every lower scope", async () => {
+    const url = await start(authConfig({
+      tokens: [READ_TOKEN, { token: "admin-token", scope: "admin" }],
+    }));
+
+    const read = await post(url, toolCall("query"), "read-token");
+    expect(read.status).toBe(200);
+    const { clientId, scopes } = (await read.json()) as { clientId: string; scopes: string[] };
+    expect(clientId).toMatch(/^static:[0-9a-f]{12}$/);
+    expect(clientId).not.toContain("read-token");
+    expect(scopes).toEqual(["read"]);
+
+    expect((await post(url, toolCall("upload_file"), "admin-token")).status).toBe(200);
+    expect((await post(url, toolCall("delete_store"), "admin-token")).status).toBe(200);
+  });
+
+  it("refuses tools above the token's scope with 403", async () => {
+    const url = await start(authConfig({ tokens: [READ_TOKEN] }));
+
+    const response = await post(url, toolCall("upload_file"), "read-token");
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get("www-authenticate")).toContain('scope="upload"');
+  });
+
+  it("checks every request of a batch", async () => {
+    const url = await start(authConfig({ tokens: [READ_TOKEN] }));
+
+    const batch = [toolCall("query", 1), toolCall("delete_store", 2)];
+    const response = await post(url, batch, "read-token");
+
+    expect(response.status).toBe(403);
+  });
+
+  it("accepts HMAC tokens signed with the server secret", async () => {
+    const url = await start(authConfig({ hmacSecret: SECRET }));
+    const token = issueHmacToken(SECRET, "ci-bot", "upload", 60);
+
+    const response = await post(url, toolCall("upload_file"), token);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ clientId: "hmac:ci-bot", scopes: ["read", "upload"] });
+    expect((await post(url, toolCall("delete_store"), token)).status).toBe(403);
+  });
+
+  it("rejects HMAC tokens that are forged, tampered with or expired", async () => {
+    const url = await start(authConfig({ hmacSecret: SECRET }));
+    const [payload, signature] = issueHmacToken(SECRET, "ci-bot", "read", 60).split(".");
+    const escalated = Buffer.from(
+      JSON.stringify({ sub: "ci-bot", scope: "admin", exp: Math.floor(Date.now() / 1000) + 60 }),
+    ).toString("base64url");
+
+    const rejected = [
+      issueHmacToken("other-secret", "ci-bot", "read", 60),
+      `${escalated}.${signature ?? ""}`,
+      `${payload ?? ""}.${signature ?? ""}.extra`,
+      issueHmacToken(SECRET, "ci-bot", "read", -60),
+    ];
+    for (const token of rejected) {
+      expect((await post(url, toolCall("query"), token)).status).toBe(401);
+    }
+  });
+});
+
+describe("isAuthEnabled", () => {
+  it("is enabled by static tokens or an HMAC secret", () => {
+    expect(isAuthEnabled(authConfig({}))).toBe(false);
+    expect(isAuthEnabled(authConfig({ tokens: [READ_TOKEN] }))).toBe(true);
+    expect(isAuthEnabled(authConfig({ hmacSecret: SECRET }))).toBe(true);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Authentication and authorization for the HTTP transport
+ *
+ * Callers present a bearer token, either a static token from configuration
+ * or an HMAC-signed token issued with the server secret. Each token carries
+ * a scope (read < upload < admin) that decides which tools it may call.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import type { RequestHandler } from "express";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import type { AuthConfig, AuthScope } from "../types/index.js";
+
+/**
+ * Scopes in ascending order of privilege; each scope includes the ones before it
+ */
+export const AUTH_SCOPES = ["read", "upload", "admin"] as const satisfies readonly AuthScope[];
+
+/**
+ * Expand a scope into the list of scopes it grants
+ */
+function grantedScopes(scope: AuthScope): string[] {
+  return AUTH_SCOPES.slice(0, AUTH_SCOPES.indexOf(scope) + 1);
+}
+
+function isAuthScope(value: unknown): value is AuthScope {
+  return AUTH_SCOPES.includes(value as AuthScope);
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Verifies static bearer tokens from configuration
+ */
+class StaticTokenVerifier implements OAuthTokenVerifier {
+  constructor(private readonly tokens: AuthConfig["tokens"]) {}
+
+  verifyAccessToken(token: string): Promise<AuthInfo> {
+    const entry = this.tokens.find((candidate) =>
+      safeEqual(candidate.token, token),
+    );
+    if (!entry) {
+      return Promise.reject(new InvalidTokenError("Invalid access token"));
+    }
+
+    return Promise.resolve({
+      token,
+      // Identify the caller without exposing the token
+      clientId: `static:${createHash("sha256").update(token).digest("hex").slice(0, 12)}`,
+      scopes: grantedScopes(entry.scope),
+      // Static tokens do not expire
+      expiresAt: Number.POSITIVE_INFINITY,
+    });
+  }
+}
+
+type HmacTokenPayload = {
+  sub: string;
+  scope: AuthScope;
+  exp: number;
+};
+
+/**
+ * Verifies HMAC-signed tokens of the form base64url(payload).base64url(signature)
+ * The payload is JSON {sub, scope, exp} and the signature is HMAC-SHA256 over
+ * the encoded payload
+ */
+class HmacTokenVerifier implements OAuthTokenVerifier {
+  constructor(private readonly secret: string) {}
+
+  verifyAccessToken(token: string): Promise<AuthInfo> {
+    const [encodedPayload, signature, ...rest] = token.split(".");
+    if (!encodedPayload || !signature || rest.length > 0) {
+      return Promise.reject(new InvalidTokenError("Invalid access token"));
+    }
+
+    if (!safeEqual(signature, signPayload(encodedPayload, this.secret))) {
+      return Promise.reject(new InvalidTokenError("Invalid token signature"));
+    }
+
+    let payload: Partial<HmacTokenPayload>;
+    try {
+      payload = JSON.parse(
+        Buffer.from(encodedPayload, "base64url").toString("utf8"),
+      ) as Partial<HmacTokenPayload>;
+    } catch (_error) {
+      return Promise.reject(new InvalidTokenError("Malformed token payload"));
+    }
+
+    if (
+      typeof payload.sub !== "string" ||
+      !isAuthScope(payload.scope) ||
+      typeof payload.exp !== "number"
+    ) {
+      return Promise.reject(
+        new InvalidTokenError("Token payload must contain sub, scope and exp"),
+      );
+    }
+
+    // Expiry itself is checked by requireBearerAuth
+    return Promise.resolve({
+      token,
+      clientId: `hmac:${payload.sub}`,
+      scopes: grantedScopes(payload.scope),
+      expiresAt: payload.exp,
+    });
+  }
+}
+
+/**
+ * Tries each verifier in turn and accepts the first token that verifies
+ */
+class CompositeTokenVerifier implements OAuthTokenVerifier {
+  constructor(private readonly verifiers: OAuthTokenVerifier[]) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    let lastError: unknown = new InvalidTokenError("Invalid access token");
+    for (const verifier of this.verifiers) {
+      try {
+        return await verifier.verifyAccessToken(token);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+function signPayload(encodedPayload: string, secret: string): string {
+  return createHmac("sha256", secret).update(encodedPayload).digest("base64url");
+}
+
+/**
+ * Issue an HMAC-signed token for a subject and scope
+ */
+export function issueHmacToken(
+  secret: string,
+  subject: string,
+  scope: AuthScope,
+  ttlSeconds: number,
+): string {
+  const payload: HmacTokenPayload = {
+    sub: subject,
+    scope,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    "base64url",
+  );
+  return `${encodedPayload}.${signPayload(encodedPayload, secret)}`;
+}
+
+/**
+ * Whether authentication is configured at all
+ */
+export function isAuthEnabled(config: AuthConfig): boolean {
+  return config.tokens.length > 0 || config.hmacSecret.length > 0;
+}
+
+/**
+ * Build the middleware chain protecting the MCP endpoint
+ * 1. Bearer token authentication (401 on missing, invalid or expired tokens)
+ * 2. Per-tool scope check for tools/call requests (403 on insufficient scope)
+ */
+export function createAuthMiddleware(
+  config: AuthConfig,
+  getRequiredScope: (toolName: string) => AuthScope | undefined,
+): RequestHandler[] {
+  const verifiers: OAuthTokenVerifier[] = [];
+  if (config.tokens.length > 0) {
+    verifiers.push(new StaticTokenVerifier(config.tokens));
+  }
+  if (config.hmacSecret) {
+    verifiers.push(new HmacTokenVerifier(config.hmacSecret));
+  }
+
+  const authenticate = requireBearerAuth({
+    verifier: new CompositeTokenVerifier(verifiers),
+  });
+
+  const authorize: RequestHandler = (req, res, next) => {
+    // JSON-RPC requests may be batched
+    const body: unknown = req.body;
+    const messages: unknown[] = Array.isArray(body) ? body : [body];
+    const grantedScopes = req.auth?.scopes ?? [];
+
+    for (const message of messages) {
+      const toolName = getToolCallName(message);
+      const required = toolName ? getRequiredScope(toolName) : undefined;
+      if (toolName && required && !grantedScopes.includes(required)) {
+        const error = new InsufficientScopeError(
+          `Tool ${toolName} requires the ${required} scope`,
+        );
+        res.set(
+          "WWW-Authenticate",
+          `Bearer error="${error.errorCode}", error_description="${error.message}", scope="${required}"`,
+        );
+        res.status(403).json(error.toResponseObject());
+        return;
+      }
+    }
+
+    next();
+  };
+
+  return [authenticate, authorize];
+}
+
+/**
+ * Extract the tool name from a JSON-RPC tools/call request
+ */
+function getToolCallName(message: unknown): string | undefined {
+  if (typeof message !== "object" || message === null) {
+    return undefined;
+  }
+  const { method, params } = message as { method?: unknown; params?: unknown };
+  if (method !== "tools/call" || typeof params !== "object" || params === null) {
+    return undefined;
+  }
+  const { name } = params as { name?: unknown };
+  return typeof name === "string" ? name : undefined;
+}
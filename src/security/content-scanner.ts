@@ -0,0 +1,297 @@
+/**
+ * Pre-upload scanning for secrets and personal data
+ *
+ * Detects common credential formats (cloud and provider API keys, tokens,
+ * JWTs, private key blocks, high-entropy values assigned to secret-like keys)
+ * and optionally email addresses and phone numbers. The configured policy
+ * decides whether findings block the upload, are replaced with placeholders,
+ * or are only reported.
+ */
+
+import { readFile } from "node:fs/promises";
+import type { ContentScanConfig, ContentScanPolicy } from "../types/index.js";
+import { decodeUtf8Text } from "../utils/mime-type.js";
+
+type FindingCategory = "secret" | "pii";
+
+type ContentFinding = {
+  type: string;
+  category: FindingCategory;
+  line: number;
+  // Masked excerpt of the match, never the full value
+  preview: string;
+};
+
+export type ContentScanReport = {
+  policy: ContentScanPolicy;
+  scanned: boolean;
+  redacted: boolean;
+  findings: ContentFinding[];
+};
+
+type Detector = {
+  type: string;
+  category: FindingCategory;
+  pattern: RegExp;
+  // Capture group holding the sensitive value (default: whole match)
+  group?: number;
+  // Extra check on the matched value
+  accept?: (value: string) => boolean;
+};
+
+/**
+ * Minimum Shannon entropy (bits per character) for generic secret values
+ */
+const MIN_SECRET_ENTROPY = 3.5;
+
+const SECRET_DETECTORS: Detector[] = [
+  {
+    type: "private_key",
+    category: "secret",
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----|$)/g,
+  },
+  {
+    type: "aws_access_key_id",
+    category: "secret",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    type: "google_api_key",
+    category: "secret",
+    pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g,
+  },
+  {
+    type: "github_token",
+    category: "secret",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{82})\b/g,
+  },
+  {
+    type: "slack_token",
+    category: "secret",
+    pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    type: "stripe_key",
+    category: "secret",
+    pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+  },
+  {
+    type: "provider_api_key",
+    category: "secret",
+    pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    type: "jwt",
+    category: "secret",
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    type: "high_entropy_secret",
+    category: "secret",
+    pattern:
+      /\b[\w.-]{0,40}(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|access[_-]?key|credential|auth)[\w.-]{0,40}["']?\s*[:=]\s*["']?([A-Za-z0-9+/_=.~-]{20,})/gi,
+    group: 1,
+    accept: (value) => shannonEntropy(value) >= MIN_SECRET_ENTROPY,
+  },
+];
+
+const PII_DETECTORS: Detector[] = [
+  {
+    type: "email",
+    category: "pii",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    type: "phone_number",
+    category: "pii",
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?\(?\d{3}\)?[ .-]\d{3}[ .-]\d{4}(?!\d)/g,
+  },
+];
+
+type Match = {
+  detector: Detector;
+  start: number;
+  end: number;
+  value: string;
+};
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+/**
+ * Mask a sensitive value, keeping only a few characters at each end
+ */
+function maskValue(value: string): string {
+  const singleLine = value.replace(/\s+/g, " ");
+  if (singleLine.length <= 8) {
+    return "*".repeat(singleLine.length);
+  }
+  return `${singleLine.slice(0, 4)}…${singleLine.slice(-2)}`;
+}
+
+/**
+ * Find non-overlapping matches of all active detectors, in text order
+ */
+function findMatches(text: string, detectors: Detector[]): Match[] {
+  const matches: Match[] = [];
+
+  for (const detector of detectors) {
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = detector.group ? match[detector.group] : match[0];
+      if (!value || (detector.accept && !detector.accept(value))) {
+        continue;
+      }
+      const start = match.index + match[0].lastIndexOf(value);
+      matches.push({ detector, start, end: start + value.length, value });
+    }
+  }
+
+  // Earlier detectors are more specific; drop later matches that overlap
+  matches.sort((a, b) => a.start - b.start);
+  const result: Match[] = [];
+  for (const match of matches) {
+    const previous = result[result.length - 1];
+    if (previous && match.start < previous.end) {
+      continue;
+    }
+    result.push(match);
+  }
+  return result;
+}
+
+/**
+ * Line number (1-based) of a character offset
+ */
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split("\n").length;
+}
+
+/**
+ * Raised when the scan policy is "block" and the content contains findings
+ */
+export class ContentPolicyError extends Error {
+  override readonly name = "ContentPolicyError";
+
+  constructor(
+    readonly source: string,
+    readonly findings: ContentFinding[],
+  ) {
+    const types = [...new Set(findings.map((finding) => finding.type))];
+    super(
+      `Upload of ${source} blocked: found ${String(findings.length)} potential secret(s) or personal data (${types.join(", ")}). Remove them from the content before uploading.`,
+    );
+  }
+}
+
+/**
+ * Scan text before upload and apply the configured policy
+ * @param source - File path or display name, used in error messages
+ * @returns The content to upload (redacted if the policy is "redact") and the scan report
+ * @throws ContentPolicyError if the policy is "block" and anything was found
+ */
+export function applyContentScan(
+  text: string,
+  source: string,
+  config: ContentScanConfig,
+): { content: string; report: ContentScanReport } {
+  const report: ContentScanReport = {
+    policy: config.policy,
+    scanned: config.policy !== "off",
+    redacted: false,
+    findings: [],
+  };
+
+  if (config.policy === "off") {
+    return { content: text, report };
+  }
+
+  const detectors = config.detectPii
+    ? [...SECRET_DETECTORS, ...PII_DETECTORS]
+    : SECRET_DETECTORS;
+  const matches = findMatches(text, detectors);
+
+  report.findings = matches.map((match) => ({
+    type: match.detector.type,
+    category: match.detector.category,
+    line: lineAt(text, match.start),
+    preview: maskValue(match.value),
+  }));
+
+  if (matches.length === 0) {
+    return { content: text, report };
+  }
+
+  if (config.policy === "block") {
+    throw new ContentPolicyError(source, report.findings);
+  }
+
+  if (config.policy === "warn") {
+    return { content: text, report };
+  }
+
+  // Replace each finding with a typed placeholder
+  let content = "";
+  let previous = 0;
+  for (const match of matches) {
+    content += `${text.slice(previous, match.start)}[REDACTED:${match.detector.type}]`;
+    previous = match.end;
+  }
+  content += text.slice(previous);
+  report.redacted = true;
+
+  return { content, report };
+}
+
+/**
+ * Scan a local file before upload
+ * Any file whose bytes are UTF-8 text is scanned, whatever MIME type it is
+ * uploaded as; binary documents such as PDF cannot be scanned
+ * @returns The scan report, and the redacted text if the file must be uploaded redacted
+ * @throws ContentPolicyError if the policy is "block" and anything was found
+ */
+export async function scanFile(
+  filePath: string,
+  source: string,
+  config: ContentScanConfig,
+): Promise<{ report: ContentScanReport; redactedContent?: string }> {
+  const unscanned = { policy: config.policy, scanned: false, redacted: false, findings: [] };
+  if (config.policy === "off") {
+    return { report: unscanned };
+  }
+
+  const text = decodeUtf8Text(await readFile(filePath));
+  if (text === undefined) {
+    return { report: unscanned };
+  }
+
+  const { content, report } = applyContentScan(text, source, config);
+  return report.redacted ? { report, redactedContent: content } : { report };
+}
+
+/**
+ * Sentence appended to tool messages when a scan produced findings
+ */
+export function describeContentScan(report: ContentScanReport): string {
+  if (report.findings.length === 0) {
+    return "";
+  }
+  const count = String(report.findings.length);
+  return report.redacted
+    ? ` ${count} potential secret(s) or personal data were redacted before upload (see contentScan.findings).`
+    : ` Warning: ${count} potential secret(s) or personal data found and uploaded unchanged (see contentScan.findings).`;
+}
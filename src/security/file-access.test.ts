@@ -0,0 +1,145 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { FileAccessConfig } from "../types/index.js";
+import {
+  checkDirectoryAccess,
+  checkFileAccess,
+  checkWritePath,
+  FileAccessError,
+} from "./file-access.js";
+
+describe("file access policy", () => {
+  let base: string;
+  let root: string;
+  let outside: string;
+  let config: FileAccessConfig;
+
+  beforeEach(async () => {
+    base = await mkdtemp(join(tmpdir(), "file-access-"));
+    root = join(base, "root");
+    outside = join(base, "outside");
+    await mkdir(join(root, "docs"), { recursive: true });
+    await mkdir(outside);
+    await writeFile(join(root, "docs", "guide.md"), "# Guide\n");
+    await writeFile(join(outside, "secret.txt"), "secret");
+    config = { allowedRoots: [root], denyPatterns: [], maxFileSizeBytes: 1024 };
+  });
+
+  afterEach(async () => {
+    await rm(base, { recursive: true, force: true });
+  });
+
+  async function ruleOf(check: Promise<unknown>): Promise<string | undefined> {
+    try {
+      await check;
+      return undefined;
+    } catch (error) {
+      if (error instanceof FileAccessError) {
+        return error.rule;
+      }
+      throw error;
+    }
+  }
+
+  describe("checkFileAccess", () => {
+    it("returns the real path of an allowed file", async () => {
+      await expect(checkFileAccess(join(root, "docs", "guide.md"), config)).resolves.toBe(
+        join(root, "docs", "guide.md"),
+      );
+    });
+
+    it("refuses every file while no root is configured", async () => {
+      const unconfigured = { ...config, allowedRoots: [] };
+
+      expect(await ruleOf(checkFileAccess(join(root, "docs", "guide.md"), unconfigured))).toBe(
+        "no_allowed_roots",
+      );
+    });
+
+    it("refuses paths outside the roots before looking them up", async () => {
+      expect(await ruleOf(checkFileAccess(join(outside, "secret.txt"), config))).toBe(
+        "outside_allowed_roots",
+      );
+      expect(await ruleOf(checkFileAccess(join(outside, "missing.txt"), config))).toBe(
+        "outside_allowed_roots",
+      );
+      expect(await ruleOf(checkFileAccess(join(root, "..", "outside", "secret.txt"), config))).toBe(
+        "outside_allowed_roots",
+      );
+    });
+
+    it("reports missing files inside the roots as not found", async () => {
+      expect(await ruleOf(checkFileAccess(join(root, "missing.md"), config))).toBe("not_found");
+    });
+
+    it("refuses symlinks that lead out of the roots", async () => {
+      await symlink(join(outside, "secret.txt"), join(root, "link.txt"));
+
+      expect(await ruleOf(checkFileAccess(join(root, "link.txt"), config))).toBe(
+        "outside_allowed_roots",
+      );
+    });
+
+    it("refuses built-in and configured deny patterns", async () => {
+      for (const name of [".env", ".envrc", ".env.local", "server.pem", "id_ed25519"]) {
+        await writeFile(join(root, name), "x");
+        expect(await ruleOf(checkFileAccess(join(root, name), config))).toBe("denied_pattern");
+      }
+
+      await writeFile(join(root, "docs", "draft.md"), "x");
+      const withPattern = { ...config, denyPatterns: ["draft.*"] };
+      expect(await ruleOf(checkFileAccess(join(root, "docs", "draft.md"), withPattern))).toBe(
+        "denied_pattern",
+      );
+    });
+
+    it("refuses directories and files above the size limit", async () => {
+      await writeFile(join(root, "large.txt"), "x".repeat(2048));
+
+      expect(await ruleOf(checkFileAccess(join(root, "docs"), config))).toBe("not_a_file");
+      expect(await ruleOf(checkFileAccess(join(root, "large.txt"), config))).toBe(
+        "file_too_large",
+      );
+    });
+  });
+
+  describe("checkDirectoryAccess", () => {
+    it("returns the real path of an allowed directory", async () => {
+      await expect(checkDirectoryAccess(join(root, "docs"), config)).resolves.toBe(
+        join(root, "docs"),
+      );
+      expect(await ruleOf(checkDirectoryAccess(outside, config))).toBe("outside_allowed_roots");
+    });
+  });
+
+  describe("checkWritePath", () => {
+    it("resolves paths relative to the directory", async () => {
+      await expect(checkWritePath("manifest.json", root, config)).resolves.toBe(
+        join(root, "manifest.json"),
+      );
+      await expect(checkWritePath(join(root, "docs", "m.json"), root, config)).resolves.toBe(
+        join(root, "docs", "m.json"),
+      );
+    });
+
+    it("refuses paths leaving the directory", async () => {
+      expect(await ruleOf(checkWritePath("../outside/m.json", root, config))).toBe(
+        "outside_allowed_roots",
+      );
+
+      await symlink(outside, join(root, "linked"));
+      expect(await ruleOf(checkWritePath("linked/m.json", root, config))).toBe(
+        "outside_allowed_roots",
+      );
+    });
+
+    it("refuses symbolic links and denied names", async () => {
+      await symlink(join(outside, "secret.txt"), join(root, "m.json"));
+
+      expect(await ruleOf(checkWritePath("m.json", root, config))).toBe("symbolic_link");
+      expect(await ruleOf(checkWritePath(".env", root, config))).toBe("denied_pattern");
+    });
+  });
+});
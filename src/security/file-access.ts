@@ -0,0 +1,287 @@
+/**
+ * File access policy for tools that read local files
+ *
+ * Blocks reads outside the configured root directories (after resolving
+ * symlinks and ".."), all file reads while no root is configured, files
+ * matching deny patterns such as private keys or .env files, and files above
+ * the size limit.
+ */
+
+import { lstat, realpath, stat } from "node:fs/promises";
+import { basename, dirname, resolve, sep } from "node:path";
+import type { FileAccessConfig } from "../types/index.js";
+import { createGlobMatcher } from "../utils/glob.js";
+
+type FileAccessRule =
+  | "no_allowed_roots"
+  | "outside_allowed_roots"
+  | "not_found"
+  | "symbolic_link"
+  | "denied_pattern"
+  | "file_too_large"
+  | "not_a_file";
+
+/**
+ * Raised when a path is rejected by the file access policy
+ */
+export class FileAccessError extends Error {
+  override readonly name = "FileAccessError";
+
+  constructor(
+    readonly rule: FileAccessRule,
+    readonly filePath: string,
+    detail: string,
+  ) {
+    super(`Access to ${filePath} blocked by rule "${rule}": ${detail}`);
+  }
+}
+
+/**
+ * Files and directories that are never uploaded (credentials, keys, secrets)
+ * Patterns without a slash match the file name; others match the full path
+ */
+const DEFAULT_DENY_PATTERNS = [
+  ".env*",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "*.pfx",
+  "*.jks",
+  "*.keystore",
+  "*.kdbx",
+  "id_rsa*",
+  "id_dsa*",
+  "id_ecdsa*",
+  "id_ed25519*",
+  ".netrc",
+  ".npmrc",
+  ".pypirc",
+  ".pgpass",
+  ".htpasswd",
+  ".git-credentials",
+  "credentials",
+  "credentials.json",
+  "**/.ssh/**",
+  "**/.gnupg/**",
+  "**/.aws/**",
+  "**/.azure/**",
+  "**/.config/gcloud/**",
+  "**/.docker/config.json",
+  "**/.kube/config",
+];
+
+/**
+ * Check whether an absolute path lies inside one of the allowed roots
+ * Roots are compared both as written and resolved through realpath, so
+ * symlinked roots work as expected
+ */
+async function isInsideAllowedRoots(
+  path: string,
+  allowedRoots: string[],
+): Promise<boolean> {
+  for (const root of allowedRoots) {
+    const candidates = [resolve(root)];
+    try {
+      candidates.push(await realpath(resolve(root)));
+    } catch (_error) {
+      // A missing root only matches lexically
+    }
+    for (const candidate of candidates) {
+      const prefix = candidate.endsWith(sep) ? candidate : `${candidate}${sep}`;
+      if (path === candidate || path.startsWith(prefix)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Local files can only be read once upload roots are configured
+ */
+function requireAllowedRoots(path: string, config: FileAccessConfig): void {
+  if (config.allowedRoots.length === 0) {
+    throw new FileAccessError(
+      "no_allowed_roots",
+      path,
+      "no upload roots are configured. Set UPLOAD_ALLOWED_ROOTS (or fileAccess.allowedRoots in the config file) to the directories that may be uploaded",
+    );
+  }
+}
+
+/**
+ * Match deny patterns against an absolute path
+ */
+function findDeniedPattern(
+  absolutePath: string,
+  denyPatterns: string[],
+): string | undefined {
+  const normalized = absolutePath.split(sep).join("/").replace(/^\/+/, "");
+  const name = basename(absolutePath);
+  return denyPatterns.find((pattern) => {
+    const matches = createGlobMatcher([pattern]);
+    return matches(normalized) || matches(name);
+  });
+}
+
+/**
+ * Apply the root and deny checks that need no filesystem access to the
+ * requested path, then resolve it through symlinks
+ * Paths outside the roots are refused before anything is looked up, so the
+ * error never reveals whether they exist
+ * @returns The real path
+ */
+async function resolveAllowedPath(
+  path: string,
+  config: FileAccessConfig,
+): Promise<string> {
+  requireAllowedRoots(path, config);
+  const requestedPath = resolve(path);
+
+  if (!(await isInsideAllowedRoots(requestedPath, config.allowedRoots))) {
+    throw new FileAccessError(
+      "outside_allowed_roots",
+      path,
+      `path is not inside an allowed root (${config.allowedRoots.join(", ")})`,
+    );
+  }
+  assertNotDenied(path, requestedPath, config);
+
+  let realPath: string;
+  try {
+    realPath = await realpath(requestedPath);
+  } catch (_error) {
+    throw new FileAccessError("not_found", path, "path does not exist");
+  }
+
+  // Symlinks and ".." must not lead out of the roots either
+  if (!(await isInsideAllowedRoots(realPath, config.allowedRoots))) {
+    throw new FileAccessError(
+      "outside_allowed_roots",
+      path,
+      `path resolves to ${realPath}, which is not inside an allowed root (${config.allowedRoots.join(", ")})`,
+    );
+  }
+  assertNotDenied(path, realPath, config);
+
+  return realPath;
+}
+
+function assertNotDenied(
+  path: string,
+  candidate: string,
+  config: FileAccessConfig,
+): void {
+  const pattern = findDeniedPattern(candidate, [
+    ...DEFAULT_DENY_PATTERNS,
+    ...config.denyPatterns,
+  ]);
+  if (pattern) {
+    throw new FileAccessError(
+      "denied_pattern",
+      path,
+      `${candidate} matches deny pattern "${pattern}" (credentials and secrets are never uploaded)`,
+    );
+  }
+}
+
+/**
+ * Ensure a directory may be traversed (inside the allowed roots, not denied)
+ * @returns The resolved real path of the directory
+ * @throws FileAccessError naming the rule that blocked access
+ */
+export async function checkDirectoryAccess(
+  directoryPath: string,
+  config: FileAccessConfig,
+): Promise<string> {
+  return await resolveAllowedPath(directoryPath, config);
+}
+
+/**
+ * Ensure a file the server writes (such as a sync manifest) stays inside a
+ * directory already checked with checkDirectoryAccess
+ * @param directoryRealPath - Real path returned by checkDirectoryAccess
+ * @returns The absolute path to write
+ * @throws FileAccessError if the path leaves the directory, matches a deny pattern or is a symbolic link
+ */
+export async function checkWritePath(
+  filePath: string,
+  directoryRealPath: string,
+  config: FileAccessConfig,
+): Promise<string> {
+  const requestedPath = resolve(directoryRealPath, filePath);
+
+  // Resolve the parent through symlinks; the file itself may not exist yet
+  let parent: string;
+  try {
+    parent = await realpath(dirname(requestedPath));
+  } catch (_error) {
+    throw new FileAccessError(
+      "outside_allowed_roots",
+      filePath,
+      `parent directory of ${requestedPath} does not exist`,
+    );
+  }
+  const prefix = directoryRealPath.endsWith(sep)
+    ? directoryRealPath
+    : `${directoryRealPath}${sep}`;
+  if (parent !== directoryRealPath && !parent.startsWith(prefix)) {
+    throw new FileAccessError(
+      "outside_allowed_roots",
+      filePath,
+      `path resolves outside ${directoryRealPath}`,
+    );
+  }
+
+  const writePath = resolve(parent, basename(requestedPath));
+  assertNotDenied(filePath, writePath, config);
+
+  // Reading or replacing the file must not follow a link out of the directory
+  let isSymbolicLink = false;
+  try {
+    isSymbolicLink = (await lstat(writePath)).isSymbolicLink();
+  } catch (_error) {
+    // Does not exist yet
+  }
+  if (isSymbolicLink) {
+    throw new FileAccessError(
+      "symbolic_link",
+      filePath,
+      `${writePath} is a symbolic link`,
+    );
+  }
+
+  return writePath;
+}
+
+/**
+ * Ensure a file may be read and uploaded
+ * @returns The resolved real path of the file, which should be used for reading
+ * @throws FileAccessError naming the rule that blocked access
+ */
+export async function checkFileAccess(
+  filePath: string,
+  config: FileAccessConfig,
+): Promise<string> {
+  // Checks both the requested path and the symlink target
+  const realPath = await resolveAllowedPath(filePath, config);
+
+  const fileStat = await stat(realPath);
+  if (!fileStat.isFile()) {
+    throw new FileAccessError(
+      "not_a_file",
+      filePath,
+      "path is not a regular file",
+    );
+  }
+
+  if (fileStat.size > config.maxFileSizeBytes) {
+    throw new FileAccessError(
+      "file_too_large",
+      filePath,
+      `file size ${String(fileStat.size)} bytes exceeds limit of ${String(config.maxFileSizeBytes)} bytes`,
+    );
+  }
+
+  return realPath;
+}
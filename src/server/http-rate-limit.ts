@@ -0,0 +1,39 @@
+/**
+ * Per-caller request rate limiting for the HTTP transport
+ */
+
+import type { RequestHandler } from "express";
+import type { RateLimitRule } from "../types/index.js";
+import { RateLimiter } from "../utils/rate-limit.js";
+
+/**
+ * Limit requests per caller, identified by the authenticated client id or,
+ * without authentication, the client address
+ * Callers over the limit get 429 with a Retry-After header
+ */
+export function createHttpRateLimitMiddleware(
+  rule: RateLimitRule,
+): RequestHandler {
+  const limiter = new RateLimiter(() => rule);
+
+  return (req, res, next) => {
+    const caller = req.auth?.clientId ?? `ip:${req.ip ?? "unknown"}`;
+    const retryAfterMs = limiter.consume(caller);
+    if (retryAfterMs === 0) {
+      next();
+      return;
+    }
+
+    const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+    res.set("Retry-After", String(retryAfterSeconds));
+    res.status(429).json({
+      jsonrpc: "2.0",
+      error: {
+        code: -32000,
+        message: `Too many requests: limit is ${String(rule.requestsPerMinute)} per minute. Retry after ${String(retryAfterSeconds)}s.`,
+        data: { retryAfterSeconds },
+      },
+      id: null,
+    });
+  };
+}
@@ -6,10 +6,28 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import express from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import type { ServerConfig, TransportConfig } from "../types/index.js";
 import { ToolRegistry } from "./tool-registry.js";
+import { ResourceRegistry } from "./resource-registry.js";
+import { PromptRegistry } from "./prompt-registry.js";
 import { GeminiClient } from "../clients/gemini-client.js";
+import { QueryCache } from "../cache/query-cache.js";
 import type { ToolContext } from "../tools/base-tool.js";
+import { UploadJobManager } from "../jobs/upload-job-manager.js";
+import { createAuthMiddleware, isAuthEnabled } from "../security/auth.js";
+import { HttpSessionManager } from "./session-manager.js";
+import { createHttpRateLimitMiddleware } from "./http-rate-limit.js";
+import { RateLimiter } from "../utils/rate-limit.js";
+import { ResponsePager } from "../utils/pagination.js";
+import { ConversationStore } from "../conversations/conversation-store.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Interface the HTTP transport binds to when authentication is disabled
+ */
+const LOOPBACK_HOST = "127.0.0.1";
 
 /**
  * MCP server implementation
@@ -18,12 +36,55 @@ export class MCPServerImpl {
   private server: McpServer;
   private config: ServerConfig | null = null;
   private toolRegistry: ToolRegistry | null = null;
+  private resourceRegistry: ResourceRegistry | null = null;
+  private promptRegistry: PromptRegistry | null = null;
+  // Servers that receive list-changed notifications
+  private servers = new Set<McpServer>();
+  private sessions: HttpSessionManager | null = null;
 
   constructor() {
     this.server = new McpServer({
       name: "mcp-server",
       version: "1.0.0",
     });
+    this.servers.add(this.server);
+  }
+
+  /**
+   * Create an additional McpServer with all tools, resources and prompts registered
+   * Used for HTTP, where every session (or stateless request) needs its own server
+   */
+  private createServer(): McpServer {
+    if (!this.toolRegistry || !this.resourceRegistry || !this.promptRegistry) {
+      throw new Error("Server not initialized. Call initialize() first.");
+    }
+
+    const server = new McpServer({
+      name: "mcp-server",
+      version: "1.0.0",
+    });
+    this.toolRegistry.setupToolHandlers(server);
+    this.resourceRegistry.setupResourceHandlers(server);
+    this.promptRegistry.setupPromptHandlers(server);
+
+    this.servers.add(server);
+    server.server.onclose = () => {
+      this.servers.delete(server);
+    };
+    return server;
+  }
+
+  /**
+   * Send resources/list_changed to every connected client
+   */
+  private notifyResourceListChanged(): void {
+    for (const server of this.servers) {
+      if (server.isConnected()) {
+        server.server.sendResourceListChanged().catch((error: unknown) => {
+          logger.warn("Failed to send resource list change notification", { error });
+        });
+      }
+    }
   }
 
   /**
@@ -33,22 +94,60 @@ export class MCPServerImpl {
     this.config = config;
 
     // Create Gemini client
-    const geminiClient = new GeminiClient(config.gemini.apiKey);
+    const geminiClient = new GeminiClient(config.gemini.apiKey, {
+      operationPolling: config.gemini.operationPolling,
+      retry: config.gemini.retry,
+      maxConcurrentCalls: config.rateLimits.maxConcurrentGeminiCalls,
+      queryCache: config.queryCache.enabled
+        ? new QueryCache(config.queryCache)
+        : undefined,
+    });
 
     // Create tool context
     const toolContext: ToolContext = {
       geminiClient,
       storeDisplayName: config.gemini.storeDisplayName,
+      allowedStores: [
+        ...new Set([
+          config.gemini.storeDisplayName,
+          ...config.gemini.allowedStores,
+        ]),
+      ],
       defaultModel: config.gemini.model,
+      defaultPageSize: config.mcp.defaultPageSize,
+      uploadJobs: new UploadJobManager(() => {
+        this.notifyResourceListChanged();
+      }),
+      chunking: config.gemini.chunking,
+      fileAccess: config.fileAccess,
+      contentScan: config.contentScan,
+      toolRateLimiter: new RateLimiter(
+        (toolName) => config.rateLimits.tools[toolName],
+      ),
+      responsePager: new ResponsePager(config.mcp.maxResponseSize),
+      conversations: new ConversationStore(config.conversations),
+      notifyResourceListChanged: () => {
+        this.notifyResourceListChanged();
+      },
     };
 
     // Setup tool registry and handlers
-    this.toolRegistry = new ToolRegistry(this.server);
+    this.toolRegistry = new ToolRegistry();
 
     // Initialize tool registry (loads tools automatically)
     this.toolRegistry.initialize(toolContext);
 
-    this.toolRegistry.setupToolHandlers();
+    this.toolRegistry.setupToolHandlers(this.server);
+
+    // Setup store and document resources
+    this.resourceRegistry = new ResourceRegistry();
+    this.resourceRegistry.initialize(toolContext);
+    this.resourceRegistry.setupResourceHandlers(this.server);
+
+    // Setup built-in and configured prompts
+    this.promptRegistry = new PromptRegistry();
+    this.promptRegistry.initialize(toolContext, config.prompts);
+    this.promptRegistry.setupPromptHandlers(this.server);
   }
 
   /**
@@ -65,6 +164,7 @@ export class MCPServerImpl {
       // Don't log to stdout for stdio transport as it interferes with MCP protocol
     } else {
       const port = transport.port ?? 3000;
+      const { stateless } = this.config.http;
       const app = express();
       app.use(express.json());
 
@@ -76,31 +176,80 @@ export class MCPServerImpl {
         res.json({ status: "ok", timestamp: new Date().toISOString() });
       });
 
-      // MCP Streamable HTTP endpoint
-      app.post("/mcp", async (req, res) => {
-        const transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: undefined,
-          enableJsonResponse: true,
-        });
+      // Bearer token authentication and per-tool scopes
+      const auth = isAuthEnabled(this.config.auth)
+        ? createAuthMiddleware(
+            this.config.auth,
+            (toolName) => this.toolRegistry?.getToolByName(toolName)?.requiredScope,
+          )
+        : [];
+      // Fail closed: without authentication only local clients can connect,
+      // unless unauthenticated remote access was explicitly allowed
+      let host: string | undefined;
+      if (auth.length === 0) {
+        if (this.config.auth.allowUnauthenticated) {
+          console.warn(
+            "⚠️  HTTP authentication is disabled and MCP_AUTH_ALLOW_UNAUTHENTICATED is set: the server accepts unauthenticated requests on all interfaces.",
+          );
+        } else {
+          host = LOOPBACK_HOST;
+          console.warn(
+            `⚠️  HTTP authentication is disabled, so the server only listens on ${LOOPBACK_HOST}. Set MCP_AUTH_TOKENS or MCP_AUTH_HMAC_SECRET to accept remote clients.`,
+          );
+        }
+      }
 
-        res.on("close", () => {
-          void transport.close();
-        });
+      // Per-caller request limit, applied after authentication identifies the caller
+      const { httpPerCaller } = this.config.rateLimits;
+      const middleware = httpPerCaller
+        ? [...auth, createHttpRateLimitMiddleware(httpPerCaller)]
+        : auth;
 
-        await this.server.connect(transport);
-        await transport.handleRequest(req, res, req.body);
-      });
+      if (stateless) {
+        // MCP Streamable HTTP endpoint: a fresh server and transport per request
+        app.post("/mcp", ...middleware, async (req, res) => {
+          const server = this.createServer();
+          const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: undefined,
+            enableJsonResponse: true,
+          });
+
+          res.on("close", () => {
+            void transport.close();
+            void server.close();
+          });
 
-      app.listen(port, () => {
+          await server.connect(transport);
+          await transport.handleRequest(req, res, req.body);
+        });
+      } else {
+        this.setupSessionRoutes(app, middleware);
+      }
+
+      const onListening = () => {
         console.log("🚀 HTTP MCP Server started successfully!");
-        console.log(`🌐 Server listening on port ${String(port)}`);
+        console.log(`🌐 Server listening on ${host ?? "all interfaces"}, port ${String(port)}`);
         console.log(`📋 Available endpoints:`);
         console.log(`  - GET /health - Health check endpoint`);
-        console.log(`  - POST /mcp - MCP Streamable HTTP endpoint`);
+        console.log(
+          `  - POST /mcp - MCP Streamable HTTP endpoint${auth.length > 0 ? " (bearer token required)" : ""}`,
+        );
+        if (!stateless) {
+          console.log(`  - GET /mcp - Server-to-client SSE stream for a session`);
+          console.log(`  - DELETE /mcp - Terminate a session`);
+        }
         if (this.toolRegistry) {
           console.log(`🔧 MCP Tools available: ${this.toolRegistry.getRegisteredTools().join(", ")}`);
         }
-      });
+        if (this.promptRegistry) {
+          console.log(`💬 MCP Prompts available: ${this.promptRegistry.getRegisteredPrompts().join(", ")}`);
+        }
+      };
+      if (host) {
+        app.listen(port, host, onListening);
+      } else {
+        app.listen(port, onListening);
+      }
 
       // Keep the process alive
       await new Promise<void>(() => {
@@ -109,11 +258,107 @@ export class MCPServerImpl {
     }
   }
 
+  /**
+   * Register the stateful session endpoints
+   * POST initializes a session (no session id) or sends messages to it,
+   * GET opens the SSE stream for server-to-client notifications, and
+   * DELETE terminates the session
+   */
+  private setupSessionRoutes(
+    app: Express,
+    middleware: RequestHandler[],
+  ): void {
+    if (!this.config) {
+      throw new Error("Server not initialized. Call initialize() first.");
+    }
+
+    const { maxSessions } = this.config.http;
+    const sessions = new HttpSessionManager(this.config.http, () =>
+      this.createServer(),
+    );
+    this.sessions = sessions;
+
+    const sendError = (
+      res: Response,
+      status: number,
+      code: number,
+      message: string,
+    ) => {
+      res.status(status).json({
+        jsonrpc: "2.0",
+        error: { code, message },
+        id: null,
+      });
+    };
+
+    app.post("/mcp", ...middleware, async (req, res) => {
+      const sessionId = req.header("mcp-session-id");
+      const clientId = req.auth?.clientId;
+
+      if (sessionId) {
+        const transport = sessions.get(sessionId, clientId);
+        if (!transport) {
+          sendError(res, 404, -32001, "Session not found");
+          return;
+        }
+        await transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        sendError(
+          res,
+          400,
+          -32000,
+          "Bad Request: Mcp-Session-Id header is required for requests other than initialize",
+        );
+        return;
+      }
+
+      if (!sessions.hasCapacity()) {
+        sendError(
+          res,
+          503,
+          -32000,
+          `Too many open sessions (limit ${String(maxSessions)}). Close an existing session or retry later.`,
+        );
+        return;
+      }
+
+      const transport = await sessions.create(clientId);
+      try {
+        await transport.handleRequest(req, res, req.body);
+      } finally {
+        sessions.abandon(transport);
+      }
+    });
+
+    // GET (SSE stream) and DELETE (terminate) for an existing session
+    const handleSessionRequest = async (req: Request, res: Response) => {
+      const sessionId = req.header("mcp-session-id");
+      const transport = sessionId
+        ? sessions.get(sessionId, req.auth?.clientId)
+        : undefined;
+      if (!sessionId || !transport) {
+        sendError(res, sessionId ? 404 : 400, -32001, "Session not found");
+        return;
+      }
+
+      if (req.method === "GET") {
+        sessions.trackStream(sessionId, res);
+      }
+      await transport.handleRequest(req, res);
+    };
+
+    app.get("/mcp", ...middleware, handleSessionRequest);
+    app.delete("/mcp", ...middleware, handleSessionRequest);
+  }
+
   /**
    * Stop the server gracefully
    */
   async stop(): Promise<void> {
-    // Server cleanup if needed
+    await this.sessions?.closeAll();
   }
 
   /**
@@ -0,0 +1,132 @@
+/**
+ * Prompt registry for MCP server
+ *
+ * Registers the built-in RAG prompts and the prompt templates from the
+ * server configuration. Every prompt accepts an optional store and metadata
+ * filter, which are passed on as instructions for the query tool.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolContext } from "../tools/base-tool.js";
+import type { PromptTemplateConfig } from "../types/index.js";
+import { compileMetadataFilter } from "../utils/metadata-filter.js";
+import { logger } from "../utils/logger.js";
+import { BUILTIN_PROMPTS, renderPromptTemplate } from "../prompts/prompt-templates.js";
+
+type PromptArgsShape = Record<string, z.ZodType<string> | z.ZodOptional<z.ZodType<string>>>;
+
+export class PromptRegistry {
+  private context: ToolContext | null = null;
+  private prompts: PromptTemplateConfig[] = [];
+
+  /**
+   * Initialize the registry with the shared tool context and configured prompts
+   */
+  initialize(context: ToolContext, customPrompts: PromptTemplateConfig[]): void {
+    this.context = context;
+    this.prompts = [...BUILTIN_PROMPTS, ...customPrompts];
+
+    logger.info(
+      `PromptRegistry initialized with ${String(this.prompts.length)} prompts (${String(customPrompts.length)} from config)`,
+    );
+  }
+
+  /**
+   * Register all prompts on an MCP server
+   */
+  setupPromptHandlers(server: McpServer): void {
+    for (const prompt of this.prompts) {
+      server.registerPrompt(
+        prompt.name,
+        {
+          ...(prompt.title && { title: prompt.title }),
+          description: prompt.description,
+          argsSchema: this.buildArgsSchema(prompt),
+        },
+        (args: Record<string, string | undefined>) =>
+          this.renderPrompt(prompt, args),
+      );
+    }
+  }
+
+  getRegisteredPrompts(): string[] {
+    return this.prompts.map((prompt) => prompt.name);
+  }
+
+  private getContext(): ToolContext {
+    if (!this.context) {
+      throw new Error("PromptRegistry not initialized. Call initialize() first.");
+    }
+    return this.context;
+  }
+
+  /**
+   * Declared arguments plus the standard store and metadataFilter arguments
+   */
+  private buildArgsSchema(prompt: PromptTemplateConfig): PromptArgsShape {
+    const { allowedStores } = this.getContext();
+    const shape: PromptArgsShape = {};
+
+    for (const argument of prompt.arguments ?? []) {
+      const schema = argument.required ? z.string().min(1) : z.string().optional();
+      shape[argument.name] = argument.description
+        ? schema.describe(argument.description)
+        : schema;
+    }
+
+    shape.store = z
+      .string()
+      .optional()
+      .describe(
+        `Display name of the store to search (default store if omitted). Allowed stores: ${allowedStores.join(", ")}`,
+      );
+    shape.metadataFilter = z
+      .string()
+      .optional()
+      .describe(
+        "Metadata filter for the query tool as JSON, e.g. {\"key\": \"category\", \"op\": \"eq\", \"value\": \"guide\"}",
+      );
+
+    return shape;
+  }
+
+  private renderPrompt(
+    prompt: PromptTemplateConfig,
+    args: Record<string, string | undefined>,
+  ): GetPromptResult {
+    const { allowedStores } = this.getContext();
+    const { store, metadataFilter } = args;
+
+    if (store && !allowedStores.includes(store)) {
+      throw new Error(
+        `Store "${store}" is not allowed. Allowed stores: ${allowedStores.join(", ")}`,
+      );
+    }
+
+    // Validate the filter now so the mistake is reported before any tool call
+    let filter: unknown;
+    if (metadataFilter) {
+      try {
+        filter = JSON.parse(metadataFilter);
+      } catch (_error) {
+        throw new Error("metadataFilter must be a JSON object");
+      }
+      compileMetadataFilter(filter);
+    }
+
+    let text = renderPromptTemplate(prompt.template, args).trimEnd();
+    if (store) {
+      text += `\n\nUse store: "${store}" in every tool call.`;
+    }
+    if (metadataFilter) {
+      text += `\n\nPass metadataFilter: ${JSON.stringify(filter)} to every \`query\` call.`;
+    }
+
+    return {
+      description: prompt.description,
+      messages: [{ role: "user", content: { type: "text", text } }],
+    };
+  }
+}
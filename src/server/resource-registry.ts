@@ -0,0 +1,243 @@
+/**
+ * Resource registry for MCP server
+ *
+ * Exposes the allowed stores and their documents as MCP resources:
+ * - gemini-rag://stores/{store}
+ * - gemini-rag://stores/{store}/documents/{document}
+ * The File Search API does not return the original content of indexed
+ * documents, so reading a resource returns its metadata as JSON.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { ReadResourceResult, Resource } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolContext } from "../tools/base-tool.js";
+import { convertCustomMetadata } from "../utils/metadata.js";
+import { logger } from "../utils/logger.js";
+
+const URI_PREFIX = "gemini-rag://stores";
+
+/**
+ * Maximum number of documents per store enumerated by resources/list
+ * Larger stores are still readable through the template
+ */
+const MAX_LISTED_DOCUMENTS_PER_STORE = 200;
+
+function storeUri(displayName: string): string {
+  return `${URI_PREFIX}/${encodeURIComponent(displayName)}`;
+}
+
+function documentUri(displayName: string, documentName: string): string {
+  return `${storeUri(displayName)}/documents/${encodeURIComponent(documentId(documentName))}`;
+}
+
+/**
+ * Last segment of a document resource name
+ * (fileSearchStores/<store>/documents/<id>)
+ */
+function documentId(documentName: string): string {
+  return documentName.slice(documentName.lastIndexOf("/") + 1);
+}
+
+/**
+ * Single template variable, decoded
+ * @throws McpError (invalid params) if the URI segment is not valid percent-encoding
+ */
+function variable(value: string | string[] | undefined): string {
+  const raw = Array.isArray(value) ? value[0] : value;
+  try {
+    return decodeURIComponent(raw ?? "");
+  } catch (_error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid resource URI: "${raw ?? ""}" is not a valid percent-encoded segment`,
+    );
+  }
+}
+
+function jsonContents(uri: URL, data: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+export class ResourceRegistry {
+  private context: ToolContext | null = null;
+
+  /**
+   * Initialize the registry with the shared tool context
+   */
+  initialize(context: ToolContext): void {
+    this.context = context;
+  }
+
+  /**
+   * Register store and document resources on an MCP server
+   */
+  setupResourceHandlers(server: McpServer): void {
+    const context = this.getContext();
+    const completeStore = (value: string) =>
+      context.allowedStores.filter((store) => store.startsWith(value));
+
+    server.registerResource(
+      "store",
+      new ResourceTemplate(`${URI_PREFIX}/{store}`, {
+        list: () => ({
+          resources: context.allowedStores.map((displayName) => ({
+            uri: storeUri(displayName),
+            name: displayName,
+            mimeType: "application/json",
+          })),
+        }),
+        complete: { store: completeStore },
+      }),
+      {
+        title: "FileSearchStore",
+        description:
+          "An allowed FileSearchStore with its document counts and size",
+        mimeType: "application/json",
+      },
+      async (uri, variables) =>
+        jsonContents(uri, await this.readStore(variable(variables.store))),
+    );
+
+    server.registerResource(
+      "document",
+      new ResourceTemplate(`${URI_PREFIX}/{store}/documents/{document}`, {
+        list: async () => ({ resources: await this.listDocuments() }),
+        complete: { store: completeStore },
+      }),
+      {
+        title: "Document",
+        description:
+          "A document indexed in an allowed FileSearchStore: display name, state, size, MIME type, timestamps and custom metadata. The original content is not retrievable from the File Search API.",
+        mimeType: "application/json",
+      },
+      async (uri, variables) =>
+        jsonContents(
+          uri,
+          await this.readDocument(
+            variable(variables.store),
+            variable(variables.document),
+          ),
+        ),
+    );
+  }
+
+  private getContext(): ToolContext {
+    if (!this.context) {
+      throw new Error("ResourceRegistry not initialized. Call initialize() first.");
+    }
+    return this.context;
+  }
+
+  /**
+   * Find an allowed store by display name without creating it
+   */
+  private async findStore(displayName: string) {
+    const { allowedStores, geminiClient } = this.getContext();
+    if (!allowedStores.includes(displayName)) {
+      throw new Error(
+        `Store "${displayName}" is not allowed. Allowed stores: ${allowedStores.join(", ")}`,
+      );
+    }
+    return await geminiClient.findStoreByDisplayName(displayName);
+  }
+
+  private async readStore(displayName: string) {
+    const store = await this.findStore(displayName);
+    const isDefault = displayName === this.getContext().storeDisplayName;
+
+    if (!store) {
+      return { displayName, exists: false, isDefault };
+    }
+
+    return {
+      displayName,
+      storeName: store.name,
+      exists: true,
+      isDefault,
+      activeDocumentsCount: store.activeDocumentsCount,
+      pendingDocumentsCount: store.pendingDocumentsCount,
+      failedDocumentsCount: store.failedDocumentsCount,
+      sizeBytes: store.sizeBytes,
+      createTime: store.createTime,
+      updateTime: store.updateTime,
+    };
+  }
+
+  private async readDocument(displayName: string, id: string) {
+    const store = await this.findStore(displayName);
+    if (!store) {
+      throw new Error(`Store "${displayName}" does not exist`);
+    }
+
+    const document = await this.getContext().geminiClient.getDocument(
+      `${store.name}/documents/${id}`,
+    );
+
+    return {
+      storeName: store.name,
+      displayName: document.displayName,
+      documentName: document.name,
+      state: document.state,
+      sizeBytes: document.sizeBytes,
+      mimeType: document.mimeType,
+      createTime: document.createTime,
+      updateTime: document.updateTime,
+      metadata: convertCustomMetadata(document.customMetadata),
+    };
+  }
+
+  /**
+   * Enumerate documents of every existing allowed store
+   */
+  private async listDocuments(): Promise<Resource[]> {
+    const { allowedStores, geminiClient } = this.getContext();
+    const remoteStores = await geminiClient.listStores();
+    const resources: Resource[] = [];
+
+    for (const displayName of allowedStores) {
+      const store = geminiClient.selectStoreByDisplayName(remoteStores, displayName);
+      if (!store) {
+        continue;
+      }
+
+      let listed = 0;
+      let pageToken: string | undefined;
+      do {
+        const page = await geminiClient.listDocuments({
+          storeName: store.name,
+          ...(pageToken && { pageToken }),
+        });
+        for (const document of page.documents) {
+          resources.push({
+            uri: documentUri(displayName, document.name),
+            name: document.displayName ?? documentId(document.name),
+            mimeType: "application/json",
+            ...(document.mimeType && {
+              description: `${document.mimeType} document in ${displayName}`,
+            }),
+          });
+        }
+        listed += page.documents.length;
+        pageToken = page.nextPageToken;
+      } while (pageToken && listed < MAX_LISTED_DOCUMENTS_PER_STORE);
+
+      if (pageToken) {
+        logger.info(
+          `resources/list: listed the first ${String(listed)} documents of ${displayName}`,
+        );
+      }
+    }
+
+    return resources;
+  }
+}
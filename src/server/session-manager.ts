@@ -0,0 +1,157 @@
+/**
+ * Session registry for the stateful Streamable HTTP transport
+ *
+ * Each MCP session owns its own transport and McpServer instance. Sessions
+ * are closed after a period of inactivity, and the number of concurrent
+ * sessions is capped.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Response } from "express";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { HttpSessionConfig } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+type HttpSession = {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  // Identity of the authenticated caller that created the session, if any
+  clientId: string | undefined;
+  lastActivityAt: number;
+  // Open SSE streams; a session with a listening client is never idle
+  openStreams: number;
+};
+
+/**
+ * Interval between idle session sweeps
+ */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class HttpSessionManager {
+  private sessions = new Map<string, HttpSession>();
+  private pending = 0;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(
+    private readonly config: HttpSessionConfig,
+    private readonly createServer: () => McpServer,
+  ) {
+    this.sweepTimer = setInterval(() => {
+      this.closeIdleSessions();
+    }, Math.min(SWEEP_INTERVAL_MS, config.idleTimeoutMs));
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Whether another session may be opened
+   */
+  hasCapacity(): boolean {
+    return this.sessions.size + this.pending < this.config.maxSessions;
+  }
+
+  /**
+   * Create a transport for a new session
+   * The session is registered once the initialize request has been handled
+   */
+  async create(clientId: string | undefined): Promise<StreamableHTTPServerTransport> {
+    const server = this.createServer();
+    this.pending++;
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.pending--;
+        this.sessions.set(sessionId, {
+          transport,
+          server,
+          clientId,
+          lastActivityAt: Date.now(),
+          openStreams: 0,
+        });
+        logger.info(`HTTP session opened: ${sessionId}`);
+      },
+    });
+
+    transport.onclose = () => {
+      const { sessionId } = transport;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        logger.info(`HTTP session closed: ${sessionId}`);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      // The caller never receives the transport, so it cannot abandon it
+      this.pending--;
+      throw error;
+    }
+    return transport;
+  }
+
+  /**
+   * Release the slot reserved by create() when initialization did not complete
+   */
+  abandon(transport: StreamableHTTPServerTransport): void {
+    if (!transport.sessionId) {
+      this.pending--;
+      void transport.close();
+    }
+  }
+
+  /**
+   * Look up a session and record activity
+   * Sessions created by another caller are treated as unknown
+   */
+  get(
+    sessionId: string,
+    clientId: string | undefined,
+  ): StreamableHTTPServerTransport | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.clientId !== clientId) {
+      return undefined;
+    }
+    session.lastActivityAt = Date.now();
+    return session.transport;
+  }
+
+  /**
+   * Keep a session alive while a server-to-client SSE stream is open
+   */
+  trackStream(sessionId: string, res: Response): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    session.openStreams++;
+    res.on("close", () => {
+      session.openStreams--;
+      session.lastActivityAt = Date.now();
+    });
+  }
+
+  /**
+   * Close all sessions and stop the idle sweep
+   */
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    await Promise.all(
+      [...this.sessions.values()].map((session) => session.server.close()),
+    );
+    this.sessions.clear();
+  }
+
+  /**
+   * Close sessions that have been inactive for longer than the idle timeout
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.config.idleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openStreams === 0 && session.lastActivityAt < cutoff) {
+        logger.info(`HTTP session expired: ${sessionId}`);
+        void session.server.close();
+      }
+    }
+  }
+}
@@ -5,19 +5,38 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { ToolContext } from "../tools/base-tool.js";
 import { UploadFileTool } from "../tools/implementations/upload-file-tool.js";
 import { UploadContentTool } from "../tools/implementations/upload-content-tool.js";
+import { UploadDirectoryTool } from "../tools/implementations/upload-directory-tool.js";
+import { SyncDirectoryTool } from "../tools/implementations/sync-directory-tool.js";
 import { QueryTool } from "../tools/implementations/query-tool.js";
+import { ListDocumentsTool } from "../tools/implementations/list-documents-tool.js";
+import { DeleteDocumentTool } from "../tools/implementations/delete-document-tool.js";
+import { ListStoresTool } from "../tools/implementations/list-stores-tool.js";
+import { CreateStoreTool } from "../tools/implementations/create-store-tool.js";
+import { DeleteStoreTool } from "../tools/implementations/delete-store-tool.js";
+import { GetUploadStatusTool } from "../tools/implementations/get-upload-status-tool.js";
+import { ListUploadJobsTool } from "../tools/implementations/list-upload-jobs-tool.js";
+import { GetNextPageTool } from "../tools/implementations/get-next-page-tool.js";
+import { ResetConversationTool } from "../tools/implementations/reset-conversation-tool.js";
 
 type Tool =
   | UploadFileTool
   | UploadContentTool
-  | QueryTool;
+  | UploadDirectoryTool
+  | SyncDirectoryTool
+  | QueryTool
+  | ListDocumentsTool
+  | DeleteDocumentTool
+  | ListStoresTool
+  | CreateStoreTool
+  | DeleteStoreTool
+  | GetUploadStatusTool
+  | ListUploadJobsTool
+  | GetNextPageTool
+  | ResetConversationTool;
 
 export class ToolRegistry {
-  private registeredTools: string[] = [];
   private toolInstances = new Map<string, Tool>();
 
-  constructor(private server: McpServer) {}
-
   /**
    * Initialize tool registry by creating tool instances
    */
@@ -26,7 +45,18 @@ export class ToolRegistry {
     const tools: Tool[] = [
       new UploadFileTool(context),
       new UploadContentTool(context),
+      new UploadDirectoryTool(context),
+      new SyncDirectoryTool(context),
       new QueryTool(context),
+      new ListDocumentsTool(context),
+      new DeleteDocumentTool(context),
+      new ListStoresTool(context),
+      new CreateStoreTool(context),
+      new DeleteStoreTool(context),
+      new GetUploadStatusTool(context),
+      new ListUploadJobsTool(context),
+      new GetNextPageTool(context),
+      new ResetConversationTool(context),
     ];
 
     for (const tool of tools) {
@@ -40,11 +70,15 @@ export class ToolRegistry {
     return this.toolInstances.get(name);
   }
 
-  setupToolHandlers(): void {
+  /**
+   * Register all tools on an MCP server
+   * Tool instances are shared, so this can be called for several servers
+   */
+  setupToolHandlers(server: McpServer): void {
     for (const tool of this.toolInstances.values()) {
       // Pass Zod schema directly to MCP SDK
       // SDK handles JSON Schema conversion internally for both stdio and HTTP transports
-      this.server.registerTool(
+      server.registerTool(
         tool.name,
         {
           description: tool.description,
@@ -52,11 +86,10 @@ export class ToolRegistry {
         },
         tool.handler.bind(tool) as never,
       );
-      this.registeredTools.push(tool.name);
     }
   }
 
   getRegisteredTools(): string[] {
-    return this.registeredTools;
+    return [...this.toolInstances.keys()];
   }
 }
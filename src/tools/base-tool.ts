@@ -1,6 +1,21 @@
 import { zodToJsonSchema } from "zod-to-json-schema";
+import { z } from "zod";
 import type { ZodSchema } from "zod";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
 import type { GeminiClient } from "../clients/gemini-client.js";
+import type { UploadJobManager } from "../jobs/upload-job-manager.js";
+import type { RateLimiter } from "../utils/rate-limit.js";
+import type { ResponsePager } from "../utils/pagination.js";
+import type { ConversationStore } from "../conversations/conversation-store.js";
+import type {
+  ChunkingSettings,
+  ContentScanConfig,
+  FileAccessConfig,
+} from "../types/index.js";
 
 type ToolHandler<TArgs = Record<string, unknown>> = (
   args: TArgs
@@ -21,9 +36,42 @@ export type ToolDefinition<TArgs = Record<string, unknown>> = {
 export type ToolContext = {
   geminiClient: GeminiClient;
   storeDisplayName: string;
+  /**
+   * Store display names tools may operate on (always includes storeDisplayName)
+   */
+  allowedStores: string[];
   defaultModel: string;
+  defaultPageSize: number;
+  uploadJobs: UploadJobManager;
+  chunking: ChunkingSettings;
+  fileAccess: FileAccessConfig;
+  contentScan: ContentScanConfig;
+  /**
+   * Per-tool request limits, keyed by tool name
+   */
+  toolRateLimiter: RateLimiter;
+  /**
+   * Holds the remainder of results larger than mcp.maxResponseSize
+   */
+  responsePager: ResponsePager;
+  /**
+   * Turn history of multi-turn query conversations
+   */
+  conversations: ConversationStore;
+  /**
+   * Tell connected clients that the store and document resources changed
+   * Tools call this only after a store or document was actually created or
+   * deleted; async upload jobs notify when they complete
+   */
+  notifyResourceListChanged: () => void;
 }
 
+/**
+ * Per-request information passed by the MCP SDK to tool handlers
+ * (abort signal, progress token, notification sender, ...)
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
 export type ToolResponse = {
   content: {
     type: "text";
@@ -32,6 +80,17 @@ export type ToolResponse = {
   isError?: boolean;
 };
 
+/**
+ * Shared input schema for the optional target store argument
+ */
+export const storeArgSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    "Display name of the FileSearchStore to use. Must be one of the configured allowed stores. Uses the default store if not provided.",
+  );
+
 export function createToolResponse(data: unknown): ToolResponse {
   return {
     content: [
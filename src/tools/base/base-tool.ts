@@ -3,9 +3,17 @@
  */
 
 import type { ZodSchema } from "zod";
-import type { ToolContext, ToolDefinition, ToolResponse } from "../base-tool.js";
+import type {
+  ToolContext,
+  ToolDefinition,
+  ToolExtra,
+  ToolResponse,
+} from "../base-tool.js";
 import { createToolResponse, convertToJsonSchema } from "../base-tool.js";
+import type { AuthScope } from "../../types/index.js";
 import { logger } from "../../utils/logger.js";
+import { RateLimitError } from "../../clients/errors.js";
+import { toErrorPayload } from "./error-payload.js";
 
 /**
  * Abstract base class for all MCP tools
@@ -22,6 +30,11 @@ export abstract class BaseTool<TArgs = Record<string, unknown>> {
    */
   abstract readonly description: string;
 
+  /**
+   * Scope an HTTP caller's token needs to call this tool
+   */
+  readonly requiredScope: AuthScope = "read";
+
   constructor(protected readonly context: ToolContext) {}
 
   /**
@@ -34,38 +47,98 @@ export abstract class BaseTool<TArgs = Record<string, unknown>> {
    * Execute the tool logic
    * Override this method to implement tool-specific behavior
    * @param args - Validated input arguments
+   * @param extra - Per-request MCP information (progress token, abort signal, ...)
    * @returns Tool execution result (can be sync or async)
    */
-  abstract execute(args: TArgs): unknown;
+  abstract execute(args: TArgs, extra?: ToolExtra): unknown;
+
+  /**
+   * Convert the result of execute() to the text returned to the client
+   * Override to return text that is not JSON
+   */
+  protected serialize(result: unknown): string {
+    return JSON.stringify(result, null, 2);
+  }
+
+  /**
+   * Resolve the display name of the target store, enforcing the allowlist
+   * Falls back to the default store when no store is given
+   */
+  protected resolveStoreDisplayName(store?: string): string {
+    const { storeDisplayName, allowedStores } = this.context;
+    const displayName = store ?? storeDisplayName;
+
+    if (!allowedStores.includes(displayName)) {
+      throw new Error(
+        `Store "${displayName}" is not allowed. Allowed stores: ${allowedStores.join(", ")}`,
+      );
+    }
+
+    return displayName;
+  }
+
+  /**
+   * Resolve the target store and ensure it exists
+   */
+  protected async resolveStore(store?: string) {
+    return await this.context.geminiClient.ensureStore(
+      this.resolveStoreDisplayName(store),
+    );
+  }
+
+  /**
+   * Look up the target store without creating it
+   * @returns The store, or null if it does not exist yet
+   */
+  protected async findStore(store?: string) {
+    return await this.context.geminiClient.findStoreByDisplayName(
+      this.resolveStoreDisplayName(store),
+    );
+  }
 
   /**
    * Default handler that wraps execute() with response creation
    * Handles errors and returns error response with isError flag
+   * Results larger than mcp.maxResponseSize are truncated with a continuation cursor
    *
    * Error handling strategy:
    * - Catches all errors thrown by execute()
    * - Logs error details for debugging (without sensitive information)
-   * - Returns error.message to AI client for appropriate action
+   * - Returns a JSON payload with the error code, a retryable flag and the
+   *   message (plus the blocking rule, findings or retry delay where relevant)
    * - Sets isError: true to indicate error state
    *
    * Can be overridden if custom response handling is needed
    */
-  async handler(args: TArgs): Promise<ToolResponse> {
+  async handler(args: TArgs, extra?: ToolExtra): Promise<ToolResponse> {
     try {
-      const result = await this.execute(args);
-      return createToolResponse(result);
-    } catch (error) {
-      // Log error for debugging (error object does not contain sensitive args)
-      logger.error(`[${this.name}] Error`, { error });
+      // Per-tool rate limit, checked before any work is done
+      const retryAfterMs = this.context.toolRateLimiter.consume(this.name);
+      if (retryAfterMs > 0) {
+        throw new RateLimitError(`tool ${this.name}`, retryAfterMs);
+      }
+
+      const result = await this.execute(args, extra);
 
-      // Return error message to AI client
+      // Oversized results are split into pages fetched with get_next_page
       return {
         content: [
           {
             type: "text",
-            text: error instanceof Error ? error.message : String(error),
+            text: this.context.responsePager.fit(
+              this.serialize(result),
+              extra?.authInfo?.clientId,
+            ),
           },
         ],
+      };
+    } catch (error) {
+      // Log error for debugging (error object does not contain sensitive args)
+      logger.error(`[${this.name}] Error`, { error });
+
+      // Return a machine-readable error payload to AI client
+      return {
+        ...createToolResponse(toErrorPayload(error)),
         isError: true,
       };
     }
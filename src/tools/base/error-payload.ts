@@ -0,0 +1,110 @@
+/**
+ * Machine-readable error payloads returned by tools
+ *
+ * Every failed tool call returns JSON with the error class, a stable code,
+ * whether retrying the same call may succeed, the message, and details
+ * specific to the error (blocking rule, findings, retry delay, ...).
+ */
+
+import { FileAccessError } from "../../security/file-access.js";
+import { ContentPolicyError } from "../../security/content-scanner.js";
+import {
+  GeminiApiError,
+  OperationCancelledError,
+  OperationTimeoutError,
+  QuotaExceededError,
+  RateLimitError,
+} from "../../clients/errors.js";
+
+type ToolErrorPayload = {
+  error: string;
+  code: string;
+  retryable: boolean;
+  message: string;
+  [detail: string]: unknown;
+};
+
+/**
+ * Describe an error thrown while executing a tool
+ */
+export function toErrorPayload(error: unknown): ToolErrorPayload {
+  if (!(error instanceof Error)) {
+    return {
+      error: "Error",
+      code: "tool_error",
+      retryable: false,
+      message: String(error),
+    };
+  }
+
+  const base = { error: error.name, message: error.message };
+
+  // File access policy violations, with the rule that blocked them
+  if (error instanceof FileAccessError) {
+    return {
+      ...base,
+      code: "file_access_denied",
+      retryable: false,
+      rule: error.rule,
+      filePath: error.filePath,
+    };
+  }
+
+  // Blocked secrets / personal data, with their (masked) findings
+  if (error instanceof ContentPolicyError) {
+    return {
+      ...base,
+      code: "content_blocked",
+      retryable: false,
+      source: error.source,
+      findings: error.findings,
+    };
+  }
+
+  // Server-side request limits: tell the caller when to retry
+  if (error instanceof RateLimitError) {
+    return {
+      ...base,
+      code: "rate_limited",
+      retryable: true,
+      retryAfterSeconds: Math.ceil(error.retryAfterMs / 1000),
+    };
+  }
+
+  // Gemini API failures (already retried by the client where possible)
+  if (error instanceof GeminiApiError) {
+    return {
+      ...base,
+      code: error.code,
+      retryable: error.retryable,
+      ...(error.status !== undefined && { status: error.status }),
+      ...(error instanceof QuotaExceededError &&
+        error.retryAfterMs !== undefined && {
+          retryAfterSeconds: Math.ceil(error.retryAfterMs / 1000),
+        }),
+    };
+  }
+
+  // The operation may still finish; calling again could upload twice
+  if (error instanceof OperationTimeoutError) {
+    return {
+      ...base,
+      code: "operation_timeout",
+      retryable: false,
+      operationName: error.operationName,
+    };
+  }
+
+  if (error instanceof OperationCancelledError) {
+    return {
+      ...base,
+      code: "cancelled",
+      retryable: false,
+      ...(error.operationName !== undefined && {
+        operationName: error.operationName,
+      }),
+    };
+  }
+
+  return { ...base, code: "tool_error", retryable: false };
+}
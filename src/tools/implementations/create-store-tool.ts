@@ -0,0 +1,59 @@
+/**
+ * Tool to create a FileSearchStore
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import type { MCPToolResponse, AuthScope } from "../../types/index.js";
+
+type CreateStoreArgs = {
+  store: string;
+};
+
+type CreateStoreResult = {
+  displayName: string;
+  storeName: string;
+};
+
+export class CreateStoreTool extends BaseTool<CreateStoreArgs> {
+  readonly name = "create_store";
+  readonly description =
+    "Create a new FileSearchStore. The display name must be one of the configured allowed stores and must not already exist.";
+  override readonly requiredScope: AuthScope = "admin";
+
+  getInputSchema() {
+    return z.object({
+      store: z
+        .string()
+        .min(1)
+        .describe("Display name of the FileSearchStore to create"),
+    });
+  }
+
+  async execute(
+    args: CreateStoreArgs,
+  ): Promise<MCPToolResponse<CreateStoreResult>> {
+    const { geminiClient } = this.context;
+
+    const displayName = this.resolveStoreDisplayName(args.store);
+
+    const existing = await geminiClient.findStoreByDisplayName(displayName);
+    if (existing) {
+      throw new Error(
+        `FileSearchStore "${displayName}" already exists: ${existing.name}`,
+      );
+    }
+
+    const created = await geminiClient.createStore(displayName);
+    this.context.notifyResourceListChanged();
+
+    return {
+      success: true,
+      message: `FileSearchStore created successfully: ${displayName}`,
+      data: {
+        displayName,
+        storeName: created.name,
+      },
+    };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Tool to delete documents from FileSearchStore
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import { storeArgSchema } from "../base-tool.js";
+import type { MCPToolResponse, MetadataInput, AuthScope } from "../../types/index.js";
+import { matchesMetadata } from "../../utils/metadata.js";
+
+type DeleteDocumentArgs = {
+  documentName?: string;
+  metadata?: MetadataInput;
+  dryRun?: boolean;
+  store?: string;
+};
+
+type DeletionOutcome = {
+  documentName: string;
+  displayName?: string | undefined;
+  status: "deleted" | "failed" | "would_delete";
+  error?: string;
+};
+
+type DeleteDocumentResult = {
+  storeName: string;
+  dryRun: boolean;
+  results: DeletionOutcome[];
+};
+
+export class DeleteDocumentTool extends BaseTool<DeleteDocumentArgs> {
+  readonly name = "delete_document";
+  readonly description =
+    "Delete documents from the FileSearchStore. Either pass a documentName to delete a single document, or pass metadata to delete every document whose custom metadata matches all given key-value pairs. Use dryRun to preview which documents would be deleted.";
+  override readonly requiredScope: AuthScope = "upload";
+
+  getInputSchema() {
+    return z.object({
+      documentName: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "Resource name of the document to delete (e.g., fileSearchStores/my-store/documents/my-doc)",
+        ),
+      metadata: z
+        .record(z.union([z.string(), z.number()]))
+        .optional()
+        .describe(
+          "Delete every document whose custom metadata matches all of these key-value pairs. Example: {\"category\": \"guide\", \"year\": 2025}",
+        ),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, only report which documents would be deleted without deleting them",
+        ),
+      store: storeArgSchema,
+    });
+  }
+
+  async execute(
+    args: DeleteDocumentArgs,
+  ): Promise<MCPToolResponse<DeleteDocumentResult>> {
+    const { geminiClient } = this.context;
+
+    if (args.documentName === undefined && args.metadata === undefined) {
+      throw new Error("Either documentName or metadata must be provided");
+    }
+    if (args.documentName !== undefined && args.metadata !== undefined) {
+      throw new Error("Provide either documentName or metadata, not both");
+    }
+    if (args.metadata !== undefined && Object.keys(args.metadata).length === 0) {
+      throw new Error("metadata must contain at least one key-value pair");
+    }
+
+    // Resolve target store (allowlisted) and ensure it exists
+    const store = await this.resolveStore(args.store);
+    const dryRun = args.dryRun ?? false;
+
+    // Resolve target documents
+    let targets: { name: string; displayName?: string | undefined }[];
+    if (args.metadata) {
+      const match = args.metadata;
+      const documents = await geminiClient.listAllDocuments(store.name);
+      targets = documents.filter((document) =>
+        matchesMetadata(document.customMetadata, match),
+      );
+    } else {
+      const documentName = args.documentName ?? "";
+      if (!documentName.startsWith(`${store.name}/documents/`)) {
+        throw new Error(
+          `Document ${documentName} does not belong to store ${store.name}`,
+        );
+      }
+      targets = [{ name: documentName }];
+    }
+
+    const results: DeletionOutcome[] = [];
+    for (const target of targets) {
+      if (dryRun) {
+        results.push({
+          documentName: target.name,
+          displayName: target.displayName,
+          status: "would_delete",
+        });
+        continue;
+      }
+
+      try {
+        await geminiClient.deleteDocument(target.name);
+        results.push({
+          documentName: target.name,
+          displayName: target.displayName,
+          status: "deleted",
+        });
+      } catch (error) {
+        results.push({
+          documentName: target.name,
+          displayName: target.displayName,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const failedCount = results.filter(
+      (result) => result.status === "failed",
+    ).length;
+    if (results.some((result) => result.status === "deleted")) {
+      this.context.notifyResourceListChanged();
+    }
+
+    return {
+      success: failedCount === 0,
+      message: dryRun
+        ? `Dry run: ${String(results.length)} document(s) would be deleted.`
+        : `Deleted ${String(results.length - failedCount)} document(s), ${String(failedCount)} failed.`,
+      data: {
+        storeName: store.name,
+        dryRun,
+        results,
+      },
+    };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Tool to delete a FileSearchStore
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import type { MCPToolResponse, AuthScope } from "../../types/index.js";
+
+type DeleteStoreArgs = {
+  store: string;
+  force?: boolean;
+};
+
+type DeleteStoreResult = {
+  displayName: string;
+  storeName: string;
+  deletedDocumentsCount: number;
+};
+
+export class DeleteStoreTool extends BaseTool<DeleteStoreArgs> {
+  readonly name = "delete_store";
+  readonly description =
+    "Delete a FileSearchStore. The store must be one of the configured allowed stores. If the store still contains documents, force must be set to true, which also deletes all of its documents.";
+  override readonly requiredScope: AuthScope = "admin";
+
+  getInputSchema() {
+    return z.object({
+      store: z
+        .string()
+        .min(1)
+        .describe("Display name of the FileSearchStore to delete"),
+      force: z
+        .boolean()
+        .optional()
+        .describe(
+          "Required when the store still contains documents. Deletes the store together with all of its documents.",
+        ),
+    });
+  }
+
+  async execute(
+    args: DeleteStoreArgs,
+  ): Promise<MCPToolResponse<DeleteStoreResult>> {
+    const { geminiClient } = this.context;
+
+    const displayName = this.resolveStoreDisplayName(args.store);
+
+    const store = await geminiClient.findStoreByDisplayName(displayName);
+    if (!store) {
+      throw new Error(`FileSearchStore "${displayName}" does not exist`);
+    }
+
+    const documentsCount =
+      store.activeDocumentsCount +
+      store.pendingDocumentsCount +
+      store.failedDocumentsCount;
+    const force = args.force ?? false;
+
+    if (documentsCount > 0 && !force) {
+      throw new Error(
+        `FileSearchStore "${displayName}" still contains ${String(documentsCount)} document(s). Set force to true to delete the store and all of its documents.`,
+      );
+    }
+
+    await geminiClient.deleteStore(store.name, force);
+    this.context.notifyResourceListChanged();
+
+    return {
+      success: true,
+      message: `FileSearchStore deleted successfully: ${displayName}`,
+      data: {
+        displayName,
+        storeName: store.name,
+        deletedDocumentsCount: documentsCount,
+      },
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Tool to fetch the next page of a truncated tool result
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import type { ToolExtra } from "../base-tool.js";
+
+type GetNextPageArgs = {
+  cursor: string;
+};
+
+export class GetNextPageTool extends BaseTool<GetNextPageArgs> {
+  readonly name = "get_next_page";
+  readonly description =
+    "Fetch the next page of a tool result that was truncated because it exceeded the response size limit. Pass the cursor from the truncation marker; each page ends with the cursor for the following page until the result is complete.";
+
+  getInputSchema() {
+    return z.object({
+      cursor: z
+        .string()
+        .min(1)
+        .describe("Cursor from the [Response truncated: ...] marker of a previous result"),
+    });
+  }
+
+  execute(args: GetNextPageArgs, extra?: ToolExtra): string {
+    return this.context.responsePager.next(
+      args.cursor,
+      extra?.authInfo?.clientId,
+    );
+  }
+
+  /**
+   * Pages are slices of the original text and are returned as-is
+   */
+  protected override serialize(result: unknown): string {
+    return String(result);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Tool to get the status of an asynchronous upload job
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import type { ToolExtra } from "../base-tool.js";
+import type { MCPToolResponse } from "../../types/index.js";
+import type { UploadJob } from "../../jobs/upload-job-manager.js";
+
+type GetUploadStatusArgs = {
+  jobId: string;
+};
+
+export class GetUploadStatusTool extends BaseTool<GetUploadStatusArgs> {
+  readonly name = "get_upload_status";
+  readonly description =
+    "Get the status of an asynchronous upload started with async: true. Reports pending, succeeded (with the documentName) or failed (with the error).";
+
+  getInputSchema() {
+    return z.object({
+      jobId: z
+        .string()
+        .min(1)
+        .describe("Job id returned by upload_file or upload_content"),
+    });
+  }
+
+  execute(args: GetUploadStatusArgs, extra?: ToolExtra): MCPToolResponse<UploadJob> {
+    const job = this.context.uploadJobs.get(args.jobId, extra?.authInfo?.clientId);
+    if (!job) {
+      throw new Error(
+        `Upload job not found: ${args.jobId}. Jobs are kept in memory and are lost when the server restarts.`,
+      );
+    }
+
+    return {
+      success: true,
+      message: `Upload job ${job.jobId} is ${job.status}.`,
+      data: job,
+    };
+  }
+}
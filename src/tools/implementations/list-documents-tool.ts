@@ -0,0 +1,92 @@
+/**
+ * Tool to list documents in FileSearchStore
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import { storeArgSchema } from "../base-tool.js";
+import type { MCPToolResponse, MetadataInput } from "../../types/index.js";
+import { convertCustomMetadata } from "../../utils/metadata.js";
+import { paginateRemote, paginationArgsShape } from "../../utils/pagination.js";
+
+type ListDocumentsArgs = {
+  pageSize?: number;
+  cursor?: string;
+  store?: string;
+};
+
+type DocumentEntry = {
+  displayName?: string | undefined;
+  documentName: string;
+  state?: string | undefined;
+  sizeBytes?: number | undefined;
+  mimeType?: string | undefined;
+  createTime?: string | undefined;
+  updateTime?: string | undefined;
+  metadata: MetadataInput;
+};
+
+type ListDocumentsResult = {
+  storeName: string;
+  documents: DocumentEntry[];
+  nextCursor?: string | undefined;
+};
+
+export class ListDocumentsTool extends BaseTool<ListDocumentsArgs> {
+  readonly name = "list_documents";
+  readonly description =
+    "List documents uploaded to the FileSearchStore, including display name, document name, state, size, timestamps and custom metadata. Results are paginated; pass the returned nextCursor to fetch the next page.";
+
+  getInputSchema() {
+    return z.object({
+      ...paginationArgsShape,
+      pageSize: paginationArgsShape.pageSize.describe(
+        "Maximum number of documents to return (the API caps this at 20). Uses the server default if not provided.",
+      ),
+      store: storeArgSchema,
+    });
+  }
+
+  async execute(
+    args: ListDocumentsArgs,
+  ): Promise<MCPToolResponse<ListDocumentsResult>> {
+    const { geminiClient, defaultPageSize } = this.context;
+
+    // Resolve target store (allowlisted) and ensure it exists
+    const store = await this.resolveStore(args.store);
+
+    // Fetch a single page of documents; cursors only continue the same store
+    const page = await paginateRemote(
+      args,
+      defaultPageSize,
+      store.name,
+      async (pageSize, pageToken) => {
+        const result = await geminiClient.listDocuments({
+          storeName: store.name,
+          pageSize,
+          ...(pageToken && { pageToken }),
+        });
+        return { items: result.documents, nextPageToken: result.nextPageToken };
+      },
+    );
+
+    return {
+      success: true,
+      message: `Found ${String(page.items.length)} document(s).${page.nextCursor ? " More documents are available." : ""}`,
+      data: {
+        storeName: store.name,
+        documents: page.items.map((document) => ({
+          displayName: document.displayName,
+          documentName: document.name,
+          state: document.state,
+          sizeBytes: document.sizeBytes,
+          mimeType: document.mimeType,
+          createTime: document.createTime,
+          updateTime: document.updateTime,
+          metadata: convertCustomMetadata(document.customMetadata),
+        })),
+        nextCursor: page.nextCursor,
+      },
+    };
+  }
+}
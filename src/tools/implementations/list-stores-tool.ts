@@ -0,0 +1,78 @@
+/**
+ * Tool to list allowed FileSearchStores
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import type { MCPToolResponse } from "../../types/index.js";
+import { paginate, paginationArgsShape } from "../../utils/pagination.js";
+
+type ListStoresArgs = {
+  pageSize?: number;
+  cursor?: string;
+};
+
+type StoreEntry = {
+  displayName: string;
+  storeName?: string | undefined;
+  exists: boolean;
+  isDefault: boolean;
+  activeDocumentsCount?: number | undefined;
+  pendingDocumentsCount?: number | undefined;
+  failedDocumentsCount?: number | undefined;
+  sizeBytes?: number | undefined;
+  createTime?: string | undefined;
+};
+
+type ListStoresResult = {
+  stores: StoreEntry[];
+  nextCursor?: string | undefined;
+};
+
+export class ListStoresTool extends BaseTool<ListStoresArgs> {
+  readonly name = "list_stores";
+  readonly description =
+    "List the FileSearchStores this server is allowed to use, with document counts and size. Stores that are allowed but not yet created are reported with exists: false. Results are paginated; pass the returned nextCursor to fetch the next page.";
+
+  getInputSchema() {
+    return z.object(paginationArgsShape);
+  }
+
+  async execute(args: ListStoresArgs): Promise<MCPToolResponse<ListStoresResult>> {
+    const { geminiClient, storeDisplayName, allowedStores, defaultPageSize } =
+      this.context;
+
+    const page = paginate(allowedStores, args, defaultPageSize);
+    const remoteStores = await geminiClient.listStores();
+
+    const stores = page.items.map((displayName): StoreEntry => {
+      const found = geminiClient.selectStoreByDisplayName(remoteStores, displayName);
+
+      if (!found) {
+        return {
+          displayName,
+          exists: false,
+          isDefault: displayName === storeDisplayName,
+        };
+      }
+
+      return {
+        displayName,
+        storeName: found.name,
+        exists: true,
+        isDefault: displayName === storeDisplayName,
+        activeDocumentsCount: found.activeDocumentsCount,
+        pendingDocumentsCount: found.pendingDocumentsCount,
+        failedDocumentsCount: found.failedDocumentsCount,
+        sizeBytes: found.sizeBytes,
+        createTime: found.createTime,
+      };
+    });
+
+    return {
+      success: true,
+      message: `Found ${String(stores.filter((store) => store.exists).length)} of ${String(stores.length)} allowed store(s) on this page (${String(page.total)} allowed in total).${page.nextCursor ? " More stores are available." : ""}`,
+      data: { stores, nextCursor: page.nextCursor },
+    };
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Tool to list asynchronous upload jobs
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import type { ToolExtra } from "../base-tool.js";
+import type { MCPToolResponse } from "../../types/index.js";
+import { paginate, paginationArgsShape } from "../../utils/pagination.js";
+import type {
+  UploadJob,
+  UploadJobStatus,
+} from "../../jobs/upload-job-manager.js";
+
+type ListUploadJobsArgs = {
+  status?: UploadJobStatus;
+  pageSize?: number;
+  cursor?: string;
+};
+
+type ListUploadJobsResult = {
+  jobs: UploadJob[];
+  nextCursor?: string | undefined;
+};
+
+export class ListUploadJobsTool extends BaseTool<ListUploadJobsArgs> {
+  readonly name = "list_upload_jobs";
+  readonly description =
+    "List asynchronous upload jobs you started on this server process, newest first, optionally filtered by status. Results are paginated; pass the returned nextCursor to fetch the next page.";
+
+  getInputSchema() {
+    return z.object({
+      status: z
+        .enum(["pending", "succeeded", "failed"])
+        .optional()
+        .describe("Only return jobs with this status"),
+      ...paginationArgsShape,
+    });
+  }
+
+  execute(
+    args: ListUploadJobsArgs,
+    extra?: ToolExtra,
+  ): MCPToolResponse<ListUploadJobsResult> {
+    const { uploadJobs, defaultPageSize } = this.context;
+    const page = paginate(
+      uploadJobs.list(extra?.authInfo?.clientId, args.status),
+      args,
+      defaultPageSize,
+    );
+
+    return {
+      success: true,
+      message: `Found ${String(page.total)} upload job(s).${page.nextCursor ? ` Showing ${String(page.items.length)}; more are available.` : ""}`,
+      data: { jobs: page.items, nextCursor: page.nextCursor },
+    };
+  }
+}
@@ -4,24 +4,43 @@
 
 import { z } from "zod";
 import { BaseTool } from "../base/base-tool.js";
-import type { MCPToolResponse } from "../../types/index.js";
+import { storeArgSchema } from "../base-tool.js";
+import type { ToolExtra } from "../base-tool.js";
+import type {
+  Citation,
+  ConversationTurn,
+  MCPToolResponse,
+} from "../../types/index.js";
+import { compileMetadataFilter } from "../../utils/metadata-filter.js";
+import { renderInlineCitations } from "../../utils/citations.js";
+import { logger } from "../../utils/logger.js";
 
 type QueryArgs = {
   query: string;
+  metadataFilter?: Record<string, unknown>;
+  inlineCitations?: boolean;
+  store?: string;
+  conversationId?: string;
 };
 
 type QueryResult = {
   text: string;
-  citations: string[];
+  citations: Citation[];
   query: string;
   model: string;
   storeName: string;
+  metadataFilter?: string | undefined;
+  cached: boolean;
+  cachedAt?: string | undefined;
+  conversationId?: string | undefined;
+  // Question/answer pairs now kept for the conversation
+  conversationTurns?: number | undefined;
 };
 
 export class QueryTool extends BaseTool<QueryArgs> {
   readonly name = "query";
   readonly description =
-    "Query the FileSearchStore using RAG (Retrieval-Augmented Generation) to get answers based on uploaded documents. The AI will search through the documents and provide relevant answers with citations.";
+    "Query the FileSearchStore using RAG (Retrieval-Augmented Generation) to get answers based on uploaded documents. The AI will search through the documents and provide relevant answers with citations. When the request carries a progress token, partial answer text is streamed as progress notifications before the final result. Pass the same conversationId on follow-up questions to keep the earlier questions and answers as context.";
 
   getInputSchema() {
     return z.object({
@@ -29,31 +48,125 @@ export class QueryTool extends BaseTool<QueryArgs> {
         .string()
         .min(1)
         .describe("The question or query to search for in the knowledge base"),
+      metadataFilter: z
+        .record(z.unknown())
+        .optional()
+        .describe(
+          [
+            "Restrict retrieval to documents whose custom metadata matches this filter.",
+            "A filter is either a condition or a group:",
+            "- {\"key\": \"category\", \"op\": \"eq\" | \"ne\", \"value\": \"guide\" | 2025}",
+            "- {\"key\": \"year\", \"op\": \"gt\" | \"gte\" | \"lt\" | \"lte\", \"value\": 2024}",
+            "- {\"key\": \"product\", \"op\": \"in\", \"values\": [\"api\", \"sdk\"]}",
+            "- {\"and\": [filter, ...]} or {\"or\": [filter, ...]}",
+            "Example: {\"and\": [{\"key\": \"category\", \"op\": \"eq\", \"value\": \"guide\"}, {\"key\": \"year\", \"op\": \"gte\", \"value\": 2024}]}",
+          ].join("\n"),
+        ),
+      inlineCitations: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, insert [n] markers into the answer text after each statement, where n is the index of the supporting citation",
+        ),
+      store: storeArgSchema,
+      conversationId: z
+        .string()
+        .min(1)
+        .max(128)
+        .optional()
+        .describe(
+          "Id of a multi-turn conversation, chosen by the caller. Earlier questions and answers of the conversation are sent as context, so follow-ups like \"and what about v2?\" work. A conversation stays on the store it was started on. Omit for a single-shot query; clear with reset_conversation.",
+        ),
     });
   }
 
-  async execute(args: QueryArgs): Promise<MCPToolResponse<QueryResult>> {
-    const { geminiClient, storeDisplayName, defaultModel } = this.context;
+  async execute(
+    args: QueryArgs,
+    extra?: ToolExtra,
+  ): Promise<MCPToolResponse<QueryResult>> {
+    const { geminiClient, defaultModel, conversations } = this.context;
+    const owner = extra?.authInfo?.clientId;
+
+    // Validate and compile metadata filter before doing any remote work
+    const metadataFilter =
+      args.metadataFilter !== undefined
+        ? compileMetadataFilter(args.metadataFilter)
+        : undefined;
 
-    // Ensure store exists
-    const store = await geminiClient.ensureStore(storeDisplayName);
+    // Resolve target store (allowlisted) and ensure it exists
+    const store = await this.resolveStore(args.store);
 
     // Query the store using the default model from environment variable
-    const result = await geminiClient.queryStore({
+    const queryArgs: {
+      storeName: string;
+      query: string;
+      model: string;
+      metadataFilter?: string;
+      history?: ConversationTurn[];
+    } = {
       storeName: store.name,
       query: args.query,
       model: defaultModel,
-    });
+    };
+
+    if (metadataFilter) {
+      queryArgs.metadataFilter = metadataFilter;
+    }
+
+    if (args.conversationId) {
+      queryArgs.history = conversations.history(args.conversationId, owner, store.name);
+    }
+
+    let receivedLength = 0;
+    // Stream partial text as progress notifications when the client asked for progress
+    const progressToken = extra?._meta?.progressToken;
+    const result =
+      extra && progressToken !== undefined
+        ? await geminiClient.queryStoreStream(queryArgs, async (delta) => {
+            receivedLength += delta.length;
+            try {
+              await extra.sendNotification({
+                method: "notifications/progress",
+                params: {
+                  progressToken,
+                  progress: receivedLength,
+                  message: delta,
+                },
+              });
+            } catch (error) {
+              // Losing a progress update must not fail the query itself
+              logger.warn(`[${this.name}] Failed to send progress notification`, {
+                error,
+              });
+            }
+          })
+        : await geminiClient.queryStore(queryArgs);
+
+    const conversationTurns = args.conversationId
+      ? conversations.append(args.conversationId, owner, store.name, {
+          question: args.query,
+          answer: result.text,
+        })
+      : undefined;
 
     return {
       success: true,
-      message: `Query completed successfully. Found ${String(result.citations.length)} citation(s).`,
+      message: result.cachedAt
+        ? `Query answered from cache (cached at ${result.cachedAt.toISOString()}). Found ${String(result.citations.length)} citation(s).`
+        : `Query completed successfully. Found ${String(result.citations.length)} citation(s).`,
       data: {
-        text: result.text,
+        text: args.inlineCitations
+          ? renderInlineCitations(result.text, result.citations)
+          : result.text,
         citations: result.citations,
         query: args.query,
         model: defaultModel,
         storeName: store.name,
+        metadataFilter,
+        cached: result.cachedAt !== undefined,
+        cachedAt: result.cachedAt?.toISOString(),
+        conversationId: args.conversationId,
+        conversationTurns,
       },
     };
   }
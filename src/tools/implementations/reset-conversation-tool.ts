@@ -0,0 +1,50 @@
+/**
+ * Tool to clear the history of a multi-turn query conversation
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import type { ToolExtra } from "../base-tool.js";
+import type { MCPToolResponse } from "../../types/index.js";
+
+type ResetConversationArgs = {
+  conversationId: string;
+};
+
+type ResetConversationResult = {
+  conversationId: string;
+  cleared: boolean;
+};
+
+export class ResetConversationTool extends BaseTool<ResetConversationArgs> {
+  readonly name = "reset_conversation";
+  readonly description =
+    "Clear the history of a query conversation, so the next query with the same conversationId starts without earlier questions and answers as context.";
+
+  getInputSchema() {
+    return z.object({
+      conversationId: z
+        .string()
+        .min(1)
+        .describe("conversationId passed to previous query calls"),
+    });
+  }
+
+  execute(
+    args: ResetConversationArgs,
+    extra?: ToolExtra,
+  ): MCPToolResponse<ResetConversationResult> {
+    const cleared = this.context.conversations.reset(
+      args.conversationId,
+      extra?.authInfo?.clientId,
+    );
+
+    return {
+      success: true,
+      message: cleared
+        ? `Conversation ${args.conversationId} cleared.`
+        : `Conversation ${args.conversationId} had no history (never used or already expired).`,
+      data: { conversationId: args.conversationId, cleared },
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import { mkdir, mkdtemp, readFile, realpath, rm, symlink, unlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ToolContext } from "../base-tool.js";
+import { FileAccessError } from "../../security/file-access.js";
+import { DEFAULT_MANIFEST_FILE_NAME } from "../../utils/sync-manifest.js";
+import { SyncDirectoryTool } from "./sync-directory-tool.js";
+
+const STORE = { name: "fileSearchStores/docs", displayName: "docs" };
+
+describe("SyncDirectoryTool", () => {
+  let base: string;
+  let root: string;
+  let geminiClient: {
+    findStoreByDisplayName: ReturnType<typeof vi.fn>;
+    ensureStore: ReturnType<typeof vi.fn>;
+    uploadFile: ReturnType<typeof vi.fn>;
+    uploadContent: ReturnType<typeof vi.fn>;
+    deleteDocument: ReturnType<typeof vi.fn>;
+  };
+  let notifyResourceListChanged: ReturnType<typeof vi.fn>;
+  let tool: SyncDirectoryTool;
+
+  beforeEach(async () => {
+    base = await realpath(await mkdtemp(join(tmpdir(), "sync-directory-")));
+    root = join(base, "root");
+    await mkdir(join(root, "notes"), { recursive: true });
+
+    let uploads = 0;
+    geminiClient = {
+      findStoreByDisplayName: vi.fn().mockResolvedValue(STORE),
+      ensureStore: vi.fn().mockResolvedValue(STORE),
+      uploadFile: vi.fn(() =>
+        Promise.resolve({ documentName: `${STORE.name}/documents/doc-${String(++uploads)}` }),
+      ),
+      uploadContent: vi.fn(),
+      deleteDocument: vi.fn().mockResolvedValue(undefined),
+    };
+    notifyResourceListChanged = vi.fn();
+    tool = new SyncDirectoryTool({
+      geminiClient,
+      storeDisplayName: "docs",
+      allowedStores: ["docs"],
+      chunking: { byMimeType: {} },
+      fileAccess: { allowedRoots: [root], denyPatterns: [], maxFileSizeBytes: 1024 * 1024 },
+      contentScan: { policy: "off", detectPii: false },
+      notifyResourceListChanged,
+    } as unknown as ToolContext);
+  });
+
+  afterEach(async () => {
+    await rm(base, { recursive: true, force: true });
+  });
+
+  async function files(entries: Record<string, string>): Promise<void> {
+    for (const [relativePath, content] of Object.entries(entries)) {
+      await writeFile(join(root, relativePath), content);
+    }
+  }
+
+  async function manifestEntries(): Promise<Record<string, { documentName: string }>> {
+    const manifest = JSON.parse(
+      await readFile(join(root, DEFAULT_MANIFEST_FILE_NAME), "utf8"),
+    ) as { storeName: string; files: Record<string, { documentName: string }> };
+    expect(manifest.storeName).toBe(STORE.name);
+    return manifest.files;
+  }
+
+  it("uploads every file on the first sync and records it in the manifest", async () => {
+    await files({ "a.md": "# A\n", "notes/b.md": "# B\n" });
+
+    const { data } = await tool.execute({ rootPath: root });
+
+    expect(data.added.sort()).toEqual(["a.md", "notes/b.md"]);
+    expect(Object.keys(await manifestEntries()).sort()).toEqual(["a.md", "notes/b.md"]);
+    expect(geminiClient.deleteDocument).not.toHaveBeenCalled();
+    expect(notifyResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it("uploads changed files, deletes removed ones and keeps filtered-out ones", async () => {
+    await files({
+      "changed.md": "# Old\n",
+      "removed.md": "# Removed\n",
+      "same.md": "# Same\n",
+      "notes/filtered.md": "# Filtered\n",
+    });
+    await tool.execute({ rootPath: root });
+    const before = await manifestEntries();
+    geminiClient.uploadFile.mockClear();
+
+    await files({ "changed.md": "# New\n", "added.md": "# Added\n" });
+    await unlink(join(root, "removed.md"));
+    const { data } = await tool.execute({ rootPath: root, exclude: ["notes/**"] });
+
+    expect(data).toMatchObject({
+      added: ["added.md"],
+      updated: ["changed.md"],
+      deleted: ["removed.md"],
+      unchangedCount: 1,
+      retained: [
+        {
+          relativePath: "notes/filtered.md",
+          reason: "excluded by include/exclude globs or .gitignore",
+        },
+      ],
+      failed: [],
+    });
+    expect(geminiClient.uploadFile).toHaveBeenCalledTimes(2);
+    expect(geminiClient.deleteDocument.mock.calls.map(([name]) => name as string).sort()).toEqual(
+      [before["changed.md"]?.documentName, before["removed.md"]?.documentName].sort(),
+    );
+
+    const after = await manifestEntries();
+    expect(Object.keys(after).sort()).toEqual([
+      "added.md",
+      "changed.md",
+      "notes/filtered.md",
+      "same.md",
+    ]);
+    expect(after["notes/filtered.md"]).toEqual(before["notes/filtered.md"]);
+  });
+
+  it("keeps documents of files that are now skipped", async () => {
+    await files({ "a.md": "# A\n" });
+    await tool.execute({ rootPath: root });
+
+    await files({ "a.md": "" });
+    const { data } = await tool.execute({ rootPath: root });
+
+    expect(data.retained).toEqual([{ relativePath: "a.md", reason: "skipped: empty file" }]);
+    expect(data.deleted).toEqual([]);
+    expect(geminiClient.deleteDocument).not.toHaveBeenCalled();
+  });
+
+  it("keeps a removed file in the manifest when deleting its document fails", async () => {
+    await files({ "a.md": "# A\n" });
+    await tool.execute({ rootPath: root });
+
+    await unlink(join(root, "a.md"));
+    geminiClient.deleteDocument.mockRejectedValueOnce(new Error("unavailable"));
+    const result = await tool.execute({ rootPath: root });
+
+    expect(result.success).toBe(false);
+    expect(result.data.failed).toEqual([
+      { relativePath: "a.md", action: "delete", error: "unavailable" },
+    ]);
+    expect(Object.keys(await manifestEntries())).toEqual(["a.md"]);
+
+    const retry = await tool.execute({ rootPath: root });
+    expect(retry.data.deleted).toEqual(["a.md"]);
+    expect(await manifestEntries()).toEqual({});
+  });
+
+  it("previews a sync without creating the store or writing anything", async () => {
+    geminiClient.findStoreByDisplayName.mockResolvedValue(null);
+    await files({ "a.md": "# A\n" });
+
+    const result = await tool.execute({ rootPath: root, dryRun: true });
+
+    expect(result.data).toMatchObject({ storeName: null, dryRun: true, added: ["a.md"] });
+    expect(result.message).toContain("The store does not exist yet and would be created.");
+    expect(geminiClient.ensureStore).not.toHaveBeenCalled();
+    expect(geminiClient.uploadFile).not.toHaveBeenCalled();
+    await expect(readFile(join(root, DEFAULT_MANIFEST_FILE_NAME))).rejects.toMatchObject({
+      code: "ENOENT",
+    });
+    expect(notifyResourceListChanged).not.toHaveBeenCalled();
+  });
+
+  it("refuses a manifest that is a symbolic link", async () => {
+    const target = join(base, "target.json");
+    await writeFile(target, "{}");
+    await symlink(target, join(root, DEFAULT_MANIFEST_FILE_NAME));
+    await files({ "a.md": "# A\n" });
+
+    const error: unknown = await tool.execute({ rootPath: root }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FileAccessError);
+    expect((error as FileAccessError).rule).toBe("symbolic_link");
+    expect(geminiClient.uploadFile).not.toHaveBeenCalled();
+    expect(await readFile(target, "utf8")).toBe("{}");
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Tool to incrementally sync a directory with FileSearchStore
+ */
+
+import { z } from "zod";
+import { lstat } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+import { BaseTool } from "../base/base-tool.js";
+import { storeArgSchema } from "../base-tool.js";
+import type { ToolExtra } from "../base-tool.js";
+import type { MCPToolResponse, MetadataInput, AuthScope } from "../../types/index.js";
+import { walkFiles } from "../../utils/file-walker.js";
+import { checkDirectoryAccess, checkWritePath } from "../../security/file-access.js";
+import { mapWithConcurrency } from "../../utils/concurrency.js";
+import { resolveChunking } from "../../utils/chunking.js";
+import {
+  buildFileMetadata,
+  classifyFile,
+  DEFAULT_CONCURRENCY,
+  describeScanFindings,
+  directorySelectionFields,
+  scanDirectoryFile,
+  validateDirectoryMetadata,
+} from "../../utils/directory-upload.js";
+import type { FileScanFindings } from "../../utils/directory-upload.js";
+import {
+  DEFAULT_MANIFEST_FILE_NAME,
+  hashFile,
+  loadManifest,
+  manifestTemporaryPath,
+  saveManifest,
+} from "../../utils/sync-manifest.js";
+
+type SyncDirectoryArgs = {
+  rootPath: string;
+  include?: string[];
+  exclude?: string[];
+  respectGitignore?: boolean;
+  maxFileSizeBytes?: number;
+  concurrency?: number;
+  metadata?: MetadataInput;
+  manifestPath?: string;
+  dryRun?: boolean;
+  store?: string;
+};
+
+type SyncFailure = {
+  relativePath: string;
+  action: "upload" | "update" | "delete";
+  error: string;
+};
+
+type SyncDirectoryResult = {
+  rootPath: string;
+  // null on a dry run when the store does not exist yet
+  storeName: string | null;
+  manifestPath: string;
+  dryRun: boolean;
+  added: string[];
+  updated: string[];
+  deleted: string[];
+  unchangedCount: number;
+  skipped: { relativePath: string; reason: string }[];
+  // Files in the manifest that still exist but were filtered out or skipped
+  // on this run; their documents are kept
+  retained: { relativePath: string; reason: string }[];
+  failed: SyncFailure[];
+  // New or changed files with content scan findings (blocked, redacted or uploaded unchanged)
+  contentScan: FileScanFindings[];
+};
+
+type PlannedUpload = {
+  relativePath: string;
+  // Checked by the file access policy; the file is only read through this path
+  realPath: string;
+  mimeType: string;
+  hash: string;
+  sizeBytes: number;
+  previousDocumentName?: string | undefined;
+  // Uploaded instead of the file when the content scan redacted it
+  redactedContent?: string | undefined;
+};
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await lstat(path);
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+function describeRetained(retained: SyncDirectoryResult["retained"]): string {
+  return retained.length === 0
+    ? ""
+    : ` ${String(retained.length)} previously synced file(s) were filtered out or skipped; their documents are kept (see retained).`;
+}
+
+export class SyncDirectoryTool extends BaseTool<SyncDirectoryArgs> {
+  readonly name = "sync_directory";
+  readonly description =
+    "Incrementally sync a directory tree with the FileSearchStore. A local manifest records each file's content hash and document, so only new or changed files are uploaded, documents of changed or removed files are deleted, and unchanged files are left alone. New and changed text files are scanned for secrets (and, if enabled, personal data) and blocked, redacted or reported per server policy. Use dryRun to preview the changes.";
+  override readonly requiredScope: AuthScope = "upload";
+
+  getInputSchema() {
+    return z.object({
+      ...directorySelectionFields,
+      manifestPath: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          `Path of the sync manifest file inside rootPath, absolute or relative to rootPath (default: ${DEFAULT_MANIFEST_FILE_NAME}). Use one manifest per store.`,
+        ),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, only report which files would be added, updated and deleted",
+        ),
+      store: storeArgSchema,
+    });
+  }
+
+  async execute(
+    args: SyncDirectoryArgs,
+    extra?: ToolExtra,
+  ): Promise<MCPToolResponse<SyncDirectoryResult>> {
+    const { geminiClient } = this.context;
+
+    validateDirectoryMetadata(args.metadata);
+
+    // Refuse directories outside the allowed upload roots
+    const rootRealPath = await checkDirectoryAccess(
+      args.rootPath,
+      this.context.fileAccess,
+    );
+
+    // Resolve target store (allowlisted); a dry run never creates it
+    const dryRun = args.dryRun ?? false;
+    const store = dryRun
+      ? await this.findStore(args.store)
+      : await this.resolveStore(args.store);
+
+    // The manifest is written by the server, so it and its temporary file
+    // must stay inside rootPath and must not be symbolic links
+    const manifestPath = await checkWritePath(
+      args.manifestPath ?? DEFAULT_MANIFEST_FILE_NAME,
+      rootRealPath,
+      this.context.fileAccess,
+    );
+    await checkWritePath(
+      manifestTemporaryPath(manifestPath),
+      rootRealPath,
+      this.context.fileAccess,
+    );
+    const manifestFiles = new Set(
+      [manifestPath, manifestTemporaryPath(manifestPath)].map((path) =>
+        relative(rootRealPath, path).split(sep).join("/"),
+      ),
+    );
+    const manifest = await loadManifest(manifestPath, store?.name);
+
+    const { files } = await walkFiles(args.rootPath, {
+      include: args.include,
+      exclude: args.exclude,
+      respectGitignore: args.respectGitignore ?? true,
+    });
+
+    // Diff the directory against the manifest
+    const skipped: SyncDirectoryResult["skipped"] = [];
+    const contentScan: FileScanFindings[] = [];
+    const uploads: PlannedUpload[] = [];
+    const present = new Set<string>();
+    const walked = new Set(files.map((file) => file.relativePath));
+    let unchangedCount = 0;
+
+    for (const file of files) {
+      if (manifestFiles.has(file.relativePath)) {
+        continue;
+      }
+
+      const classification = await classifyFile(
+        file,
+        this.context.fileAccess,
+        args.maxFileSizeBytes,
+      );
+      if ("skipReason" in classification) {
+        skipped.push({
+          relativePath: file.relativePath,
+          reason: classification.skipReason,
+        });
+        continue;
+      }
+
+      present.add(file.relativePath);
+      const { realPath } = classification;
+      const hash = await hashFile(realPath);
+      const previous = manifest.files[file.relativePath];
+
+      if (previous?.hash === hash) {
+        unchangedCount++;
+        continue;
+      }
+
+      const scan = await scanDirectoryFile(
+        { realPath, relativePath: file.relativePath },
+        this.context.contentScan,
+      );
+      if (scan.findings) {
+        contentScan.push(scan.findings);
+      }
+      if (scan.skipReason) {
+        skipped.push({ relativePath: file.relativePath, reason: scan.skipReason });
+        continue;
+      }
+
+      uploads.push({
+        relativePath: file.relativePath,
+        realPath,
+        mimeType: classification.mimeType,
+        hash,
+        sizeBytes: file.sizeBytes,
+        previousDocumentName: previous?.documentName,
+        redactedContent: scan.redactedContent,
+      });
+    }
+
+    // Only documents of files that are gone from disk are deleted; narrower
+    // filters or newly skipped files never delete anything
+    const skipReasons = new Map(
+      skipped.map((entry) => [entry.relativePath, entry.reason]),
+    );
+    const retained: SyncDirectoryResult["retained"] = [];
+    const removals: { relativePath: string; documentName: string }[] = [];
+    for (const [relativePath, entry] of Object.entries(manifest.files)) {
+      if (present.has(relativePath)) {
+        continue;
+      }
+      const skipReason = skipReasons.get(relativePath);
+      if (skipReason) {
+        retained.push({ relativePath, reason: `skipped: ${skipReason}` });
+      } else if (walked.has(relativePath) || (await pathExists(join(rootRealPath, relativePath)))) {
+        retained.push({
+          relativePath,
+          reason: "excluded by include/exclude globs or .gitignore",
+        });
+      } else {
+        removals.push({ relativePath, documentName: entry.documentName });
+      }
+    }
+
+    const result: SyncDirectoryResult = {
+      rootPath: args.rootPath,
+      storeName: store?.name ?? null,
+      manifestPath,
+      dryRun,
+      added: [],
+      updated: [],
+      deleted: [],
+      unchangedCount,
+      skipped,
+      retained,
+      failed: [],
+      contentScan,
+    };
+
+    if (dryRun || !store) {
+      for (const upload of uploads) {
+        (upload.previousDocumentName ? result.updated : result.added).push(
+          upload.relativePath,
+        );
+      }
+      result.deleted = removals.map((removal) => removal.relativePath);
+
+      return {
+        success: true,
+        message: `Dry run: ${String(result.added.length)} file(s) would be added, ${String(result.updated.length)} updated, ${String(result.deleted.length)} deleted, ${String(unchangedCount)} unchanged.${store ? "" : " The store does not exist yet and would be created."}${describeRetained(retained)}${describeScanFindings(contentScan)}`,
+        data: result,
+      };
+    }
+
+    const signal = extra?.signal;
+
+    // Upload new and changed files; replace the previous document only after the new one is indexed
+    await mapWithConcurrency(
+      uploads,
+      args.concurrency ?? DEFAULT_CONCURRENCY,
+      async (upload) => {
+        const action = upload.previousDocumentName ? "update" : "upload";
+
+        if (signal?.aborted) {
+          result.failed.push({
+            relativePath: upload.relativePath,
+            action,
+            error: "request cancelled",
+          });
+          return;
+        }
+
+        const uploadArgs: Parameters<typeof geminiClient.uploadFile>[0] = {
+          storeName: store.name,
+          filePath: upload.realPath,
+          mimeType: upload.mimeType,
+          displayName: upload.relativePath,
+          metadata: buildFileMetadata(upload.relativePath, args.metadata),
+        };
+
+        const chunking = resolveChunking(this.context.chunking, uploadArgs.mimeType);
+        if (chunking) {
+          uploadArgs.chunking = chunking;
+        }
+
+        if (signal) {
+          uploadArgs.signal = signal;
+        }
+
+        try {
+          const { redactedContent } = upload;
+          const uploaded =
+            redactedContent === undefined
+              ? await geminiClient.uploadFile(uploadArgs)
+              : await geminiClient.uploadContent({ ...uploadArgs, content: redactedContent });
+          manifest.files[upload.relativePath] = {
+            hash: upload.hash,
+            documentName: uploaded.documentName,
+            sizeBytes: upload.sizeBytes,
+            syncedAt: new Date().toISOString(),
+          };
+        } catch (error) {
+          result.failed.push({
+            relativePath: upload.relativePath,
+            action,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return;
+        }
+
+        if (!upload.previousDocumentName) {
+          result.added.push(upload.relativePath);
+          return;
+        }
+
+        try {
+          await geminiClient.deleteDocument(upload.previousDocumentName);
+          result.updated.push(upload.relativePath);
+        } catch (error) {
+          result.failed.push({
+            relativePath: upload.relativePath,
+            action,
+            error: `Uploaded new version but failed to delete previous document ${upload.previousDocumentName}: ${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+      },
+    );
+
+    // Delete documents whose source file is gone
+    for (const removal of removals) {
+      try {
+        await geminiClient.deleteDocument(removal.documentName);
+        result.deleted.push(removal.relativePath);
+      } catch (error) {
+        result.failed.push({
+          relativePath: removal.relativePath,
+          action: "delete",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const deleted = new Set(result.deleted);
+    manifest.files = Object.fromEntries(
+      Object.entries(manifest.files).filter(
+        ([relativePath]) => !deleted.has(relativePath),
+      ),
+    );
+
+    // Persist progress even when some operations failed, so a rerun only retries those
+    await saveManifest(manifestPath, manifest);
+
+    if (result.added.length + result.updated.length + result.deleted.length > 0) {
+      this.context.notifyResourceListChanged();
+    }
+
+    return {
+      success: result.failed.length === 0,
+      message: `Sync complete: ${String(result.added.length)} added, ${String(result.updated.length)} updated, ${String(result.deleted.length)} deleted, ${String(unchangedCount)} unchanged, ${String(result.failed.length)} failed.${describeRetained(retained)}${describeScanFindings(contentScan)}`,
+      data: result,
+    };
+  }
+}
@@ -4,17 +4,31 @@
 
 import { z } from "zod";
 import { BaseTool } from "../base/base-tool.js";
+import { storeArgSchema } from "../base-tool.js";
+import type { ToolExtra } from "../base-tool.js";
 import type {
   MCPToolResponse,
+  ChunkingConfig,
   CustomMetadata,
   MetadataInput,
+  AuthScope,
 } from "../../types/index.js";
 import { convertMetadataInput } from "../../utils/metadata.js";
+import { chunkingInputSchema, resolveChunking } from "../../utils/chunking.js";
+import type { UploadJob } from "../../jobs/upload-job-manager.js";
+import {
+  applyContentScan,
+  describeContentScan,
+} from "../../security/content-scanner.js";
+import type { ContentScanReport } from "../../security/content-scanner.js";
 
 type UploadContentArgs = {
   content: string;
   displayName: string;
   metadata?: MetadataInput;
+  chunking?: ChunkingConfig;
+  async?: boolean;
+  store?: string;
 };
 
 type UploadContentResult = {
@@ -22,12 +36,15 @@ type UploadContentResult = {
   displayName: string;
   storeName: string;
   contentLength: number;
+  chunking: ChunkingConfig | null;
+  contentScan: ContentScanReport;
 };
 
 export class UploadContentTool extends BaseTool<UploadContentArgs> {
   readonly name = "upload_content";
   readonly description =
-    "Upload text content to the FileSearchStore for RAG indexing. The content will be processed and made searchable.";
+    "Upload text content to the FileSearchStore for RAG indexing. The content will be processed and made searchable. Content is scanned for secrets (API keys, tokens, private keys) and, if enabled, personal data; depending on server policy these block the upload, are redacted, or are reported in contentScan.";
+  override readonly requiredScope: AuthScope = "upload";
 
   getInputSchema() {
     return z.object({
@@ -45,16 +62,37 @@ export class UploadContentTool extends BaseTool<UploadContentArgs> {
         .describe(
           "Custom metadata as key-value pairs. Values can be strings or numbers. Maximum 20 entries per document. Example: {\"category\": \"guide\", \"year\": 2025}",
         ),
+      chunking: chunkingInputSchema,
+      async: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, return a jobId immediately instead of waiting for indexing to finish. Poll get_upload_status with the jobId for the result.",
+        ),
+      store: storeArgSchema,
     });
   }
 
   async execute(
     args: UploadContentArgs,
-  ): Promise<MCPToolResponse<UploadContentResult>> {
-    const { geminiClient, storeDisplayName } = this.context;
+    extra?: ToolExtra,
+  ): Promise<
+    MCPToolResponse<
+      | UploadContentResult
+      | (UploadJob & { chunking: ChunkingConfig | null; contentScan: ContentScanReport })
+    >
+  > {
+    const { geminiClient, uploadJobs } = this.context;
 
-    // Ensure store exists
-    const store = await geminiClient.ensureStore(storeDisplayName);
+    // Scan for secrets and personal data; may block or redact per policy
+    const { content, report: scan } = applyContentScan(
+      args.content,
+      args.displayName,
+      this.context.contentScan,
+    );
+
+    // Resolve target store (allowlisted) and ensure it exists
+    const store = await this.resolveStore(args.store);
 
     // Upload content
     const uploadArgs: {
@@ -62,9 +100,11 @@ export class UploadContentTool extends BaseTool<UploadContentArgs> {
       content: string;
       displayName: string;
       metadata?: CustomMetadata[];
+      chunking?: ChunkingConfig;
+      signal?: AbortSignal;
     } = {
       storeName: store.name,
-      content: args.content,
+      content,
       displayName: args.displayName,
     };
 
@@ -72,16 +112,43 @@ export class UploadContentTool extends BaseTool<UploadContentArgs> {
       uploadArgs.metadata = convertMetadataInput(args.metadata);
     }
 
+    const chunking = resolveChunking(this.context.chunking, "text/plain", args.chunking);
+    if (chunking) {
+      uploadArgs.chunking = chunking;
+    }
+
+    // Return immediately and let the job manager track indexing
+    if (args.async) {
+      const job = uploadJobs.start(
+        { kind: "content", displayName: args.displayName, storeName: store.name },
+        extra?.authInfo?.clientId,
+        () => geminiClient.uploadContent(uploadArgs),
+      );
+      return {
+        success: true,
+        message: `Upload started: ${args.displayName}. Poll get_upload_status with jobId ${job.jobId}.${describeContentScan(scan)}`,
+        data: { ...job, chunking, contentScan: scan },
+      };
+    }
+
+    // Stop waiting for indexing if the client cancels the request
+    if (extra) {
+      uploadArgs.signal = extra.signal;
+    }
+
     const result = await geminiClient.uploadContent(uploadArgs);
+    this.context.notifyResourceListChanged();
 
     return {
       success: true,
-      message: `Content uploaded successfully: ${args.displayName}`,
+      message: `Content uploaded successfully: ${args.displayName}${describeContentScan(scan)}`,
       data: {
         documentName: result.documentName,
         displayName: args.displayName,
         storeName: store.name,
-        contentLength: args.content.length,
+        contentLength: content.length,
+        chunking,
+        contentScan: scan,
       },
     };
   }
@@ -0,0 +1,217 @@
+/**
+ * Tool to upload a directory of files to FileSearchStore
+ */
+
+import { z } from "zod";
+import { BaseTool } from "../base/base-tool.js";
+import { storeArgSchema } from "../base-tool.js";
+import type { ToolExtra } from "../base-tool.js";
+import type { MCPToolResponse, MetadataInput, AuthScope } from "../../types/index.js";
+import { walkFiles } from "../../utils/file-walker.js";
+import { checkDirectoryAccess } from "../../security/file-access.js";
+import { mapWithConcurrency } from "../../utils/concurrency.js";
+import { resolveChunking } from "../../utils/chunking.js";
+import {
+  buildFileMetadata,
+  classifyFile,
+  DEFAULT_CONCURRENCY,
+  describeScanFindings,
+  directorySelectionFields,
+  scanDirectoryFile,
+  validateDirectoryMetadata,
+} from "../../utils/directory-upload.js";
+import type { FileScanFindings } from "../../utils/directory-upload.js";
+import {
+  DEFAULT_MANIFEST_FILE_NAME,
+  manifestTemporaryPath,
+} from "../../utils/sync-manifest.js";
+
+type UploadDirectoryArgs = {
+  rootPath: string;
+  include?: string[];
+  exclude?: string[];
+  respectGitignore?: boolean;
+  maxFileSizeBytes?: number;
+  concurrency?: number;
+  metadata?: MetadataInput;
+  store?: string;
+};
+
+type FileOutcome = (
+  | { relativePath: string; status: "uploaded"; documentName: string }
+  | { relativePath: string; status: "skipped"; reason: string }
+  | { relativePath: string; status: "failed"; error: string }
+) & { scanFindings?: FileScanFindings | undefined };
+
+type UploadDirectoryResult = {
+  rootPath: string;
+  storeName: string;
+  uploaded: { relativePath: string; documentName: string }[];
+  skipped: { relativePath: string; reason: string }[];
+  failed: { relativePath: string; error: string }[];
+  excludedCount: number;
+  // Files with content scan findings (blocked, redacted or uploaded unchanged)
+  contentScan: FileScanFindings[];
+};
+
+export class UploadDirectoryTool extends BaseTool<UploadDirectoryArgs> {
+  readonly name = "upload_directory";
+  readonly description =
+    "Upload every file in a directory tree to the FileSearchStore for RAG indexing. Supports include/exclude globs, .gitignore, a per-file size limit and parallel uploads. Each document gets its path relative to the root as display name and as the \"relativePath\" metadata. Text files are scanned for secrets (and, if enabled, personal data) and blocked, redacted or reported per server policy. Returns a per-file summary of uploaded, skipped and failed files and of content scan findings.";
+  override readonly requiredScope: AuthScope = "upload";
+
+  getInputSchema() {
+    return z.object({
+      ...directorySelectionFields,
+      store: storeArgSchema,
+    });
+  }
+
+  async execute(
+    args: UploadDirectoryArgs,
+    extra?: ToolExtra,
+  ): Promise<MCPToolResponse<UploadDirectoryResult>> {
+    const { geminiClient } = this.context;
+
+    validateDirectoryMetadata(args.metadata);
+
+    // Refuse directories outside the allowed upload roots
+    await checkDirectoryAccess(args.rootPath, this.context.fileAccess);
+
+    // Resolve target store (allowlisted) and ensure it exists
+    const store = await this.resolveStore(args.store);
+
+    // Sync manifests describe the directory; they are not documents
+    const { files, excludedCount } = await walkFiles(args.rootPath, {
+      include: args.include,
+      exclude: [
+        ...(args.exclude ?? []),
+        DEFAULT_MANIFEST_FILE_NAME,
+        manifestTemporaryPath(DEFAULT_MANIFEST_FILE_NAME),
+      ],
+      respectGitignore: args.respectGitignore ?? true,
+    });
+
+    const signal = extra?.signal;
+
+    const outcomes = await mapWithConcurrency(
+      files,
+      args.concurrency ?? DEFAULT_CONCURRENCY,
+      async (file): Promise<FileOutcome> => {
+        const { relativePath } = file;
+
+        if (signal?.aborted) {
+          return { relativePath, status: "skipped", reason: "request cancelled" };
+        }
+        const classification = await classifyFile(
+          file,
+          this.context.fileAccess,
+          args.maxFileSizeBytes,
+        );
+        if ("skipReason" in classification) {
+          return {
+            relativePath,
+            status: "skipped",
+            reason: classification.skipReason,
+          };
+        }
+
+        const { realPath } = classification;
+        const scan = await scanDirectoryFile(
+          { realPath, relativePath },
+          this.context.contentScan,
+        );
+        if (scan.skipReason) {
+          return {
+            relativePath,
+            status: "skipped",
+            reason: scan.skipReason,
+            scanFindings: scan.findings,
+          };
+        }
+
+        const uploadArgs: Parameters<typeof geminiClient.uploadFile>[0] = {
+          storeName: store.name,
+          filePath: realPath,
+          mimeType: classification.mimeType,
+          displayName: relativePath,
+          metadata: buildFileMetadata(relativePath, args.metadata),
+        };
+
+        const chunking = resolveChunking(this.context.chunking, uploadArgs.mimeType);
+        if (chunking) {
+          uploadArgs.chunking = chunking;
+        }
+
+        if (signal) {
+          uploadArgs.signal = signal;
+        }
+
+        // Upload the redacted text instead of the file when the scan changed it
+        const { redactedContent } = scan;
+        try {
+          const result =
+            redactedContent === undefined
+              ? await geminiClient.uploadFile(uploadArgs)
+              : await geminiClient.uploadContent({ ...uploadArgs, content: redactedContent });
+          return {
+            relativePath,
+            status: "uploaded",
+            documentName: result.documentName,
+            scanFindings: scan.findings,
+          };
+        } catch (error) {
+          return {
+            relativePath,
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+            scanFindings: scan.findings,
+          };
+        }
+      },
+    );
+
+    const data: UploadDirectoryResult = {
+      rootPath: args.rootPath,
+      storeName: store.name,
+      uploaded: [],
+      skipped: [],
+      failed: [],
+      excludedCount,
+      contentScan: [],
+    };
+
+    for (const outcome of outcomes) {
+      if (outcome.scanFindings) {
+        data.contentScan.push(outcome.scanFindings);
+      }
+
+      if (outcome.status === "uploaded") {
+        data.uploaded.push({
+          relativePath: outcome.relativePath,
+          documentName: outcome.documentName,
+        });
+      } else if (outcome.status === "skipped") {
+        data.skipped.push({
+          relativePath: outcome.relativePath,
+          reason: outcome.reason,
+        });
+      } else {
+        data.failed.push({
+          relativePath: outcome.relativePath,
+          error: outcome.error,
+        });
+      }
+    }
+
+    if (data.uploaded.length > 0) {
+      this.context.notifyResourceListChanged();
+    }
+
+    return {
+      success: data.failed.length === 0,
+      message: `Uploaded ${String(data.uploaded.length)} file(s), skipped ${String(data.skipped.length)}, failed ${String(data.failed.length)} (${String(excludedCount)} excluded by filters).${describeScanFindings(data.contentScan)}`,
+      data,
+    };
+  }
+}
@@ -5,18 +5,31 @@
 import { z } from "zod";
 import { basename } from "node:path";
 import { BaseTool } from "../base/base-tool.js";
+import { storeArgSchema } from "../base-tool.js";
+import type { ToolExtra } from "../base-tool.js";
 import type {
   MCPToolResponse,
+  ChunkingConfig,
   CustomMetadata,
   MetadataInput,
+  AuthScope,
 } from "../../types/index.js";
 import { convertMetadataInput } from "../../utils/metadata.js";
+import { chunkingInputSchema, resolveChunking } from "../../utils/chunking.js";
+import { detectMimeType } from "../../utils/mime-type.js";
+import { checkFileAccess } from "../../security/file-access.js";
+import { describeContentScan, scanFile } from "../../security/content-scanner.js";
+import type { ContentScanReport } from "../../security/content-scanner.js";
+import type { UploadJob } from "../../jobs/upload-job-manager.js";
 
 type UploadFileArgs = {
   filePath: string;
   mimeType?: string;
   displayName?: string;
   metadata?: MetadataInput;
+  chunking?: ChunkingConfig;
+  async?: boolean;
+  store?: string;
 };
 
 type UploadFileResult = {
@@ -24,12 +37,15 @@ type UploadFileResult = {
   filePath: string;
   displayName: string;
   storeName: string;
+  chunking: ChunkingConfig | null;
+  contentScan: ContentScanReport;
 };
 
 export class UploadFileTool extends BaseTool<UploadFileArgs> {
   readonly name = "upload_file";
   readonly description =
-    "Upload a file to the FileSearchStore for RAG indexing. The file will be processed and made searchable.";
+    "Upload a file to the FileSearchStore for RAG indexing. The file will be processed and made searchable. The file must be inside the server's allowed upload roots; credential files (keys, .env files, cloud credentials) are always refused. Text files are scanned for secrets and, if enabled, personal data; depending on server policy these block the upload, are redacted, or are reported in contentScan.";
+  override readonly requiredScope: AuthScope = "upload";
 
   getInputSchema() {
     return z.object({
@@ -42,7 +58,7 @@ export class UploadFileTool extends BaseTool<UploadFileArgs> {
         .string()
         .optional()
         .describe(
-          "MIME type of the file (e.g., application/pdf, text/markdown). Auto-detected if not provided.",
+          "MIME type of the file (e.g., application/pdf, text/markdown). Auto-detected from the file content and extension if not provided.",
         ),
       displayName: z
         .string()
@@ -56,14 +72,30 @@ export class UploadFileTool extends BaseTool<UploadFileArgs> {
         .describe(
           "Custom metadata as key-value pairs. Values can be strings or numbers. Maximum 20 entries per document. Example: {\"category\": \"guide\", \"year\": 2025}",
         ),
+      chunking: chunkingInputSchema,
+      async: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, return a jobId immediately instead of waiting for indexing to finish. Poll get_upload_status with the jobId for the result.",
+        ),
+      store: storeArgSchema,
     });
   }
 
-  async execute(args: UploadFileArgs): Promise<MCPToolResponse<UploadFileResult>> {
-    const { geminiClient, storeDisplayName } = this.context;
+  async execute(
+    args: UploadFileArgs,
+    extra?: ToolExtra,
+  ): Promise<
+    MCPToolResponse<
+      | UploadFileResult
+      | (UploadJob & { chunking: ChunkingConfig | null; contentScan: ContentScanReport })
+    >
+  > {
+    const { geminiClient, uploadJobs, contentScan } = this.context;
 
-    // Ensure store exists
-    const store = await geminiClient.ensureStore(storeDisplayName);
+    // Enforce allowed roots, deny patterns and size limit; read the resolved path from here on
+    const realPath = await checkFileAccess(args.filePath, this.context.fileAccess);
 
     // Determine display name
     const displayName = args.displayName ?? basename(args.filePath);
@@ -71,10 +103,26 @@ export class UploadFileTool extends BaseTool<UploadFileArgs> {
     // Auto-detect MIME type if not provided
     let mimeType = args.mimeType;
     if (!mimeType) {
-      const ext = args.filePath.split(".").pop()?.toLowerCase();
-      mimeType = this.getMimeTypeFromExtension(ext ?? "");
+      const detection = await detectMimeType(realPath);
+      if (!detection.supported) {
+        throw new Error(
+          `Cannot upload ${args.filePath}: unsupported file type (${detection.reason}). Only PDF, Office documents and text files (documents, code, markup, data) can be indexed.`,
+        );
+      }
+      mimeType = detection.mimeType;
     }
 
+    // Scan for secrets and personal data; whether the file is text is decided
+    // from its bytes, not from the MIME type it is uploaded as
+    const { report: scan, redactedContent } = await scanFile(
+      realPath,
+      args.filePath,
+      contentScan,
+    );
+
+    // Resolve target store (allowlisted) and ensure it exists
+    const store = await this.resolveStore(args.store);
+
     // Upload file
     const uploadArgs: {
       storeName: string;
@@ -82,9 +130,11 @@ export class UploadFileTool extends BaseTool<UploadFileArgs> {
       mimeType: string;
       displayName: string;
       metadata?: CustomMetadata[];
+      chunking?: ChunkingConfig;
+      signal?: AbortSignal;
     } = {
       storeName: store.name,
-      filePath: args.filePath,
+      filePath: realPath,
       mimeType,
       displayName,
     };
@@ -93,40 +143,50 @@ export class UploadFileTool extends BaseTool<UploadFileArgs> {
       uploadArgs.metadata = convertMetadataInput(args.metadata);
     }
 
-    const result = await geminiClient.uploadFile(uploadArgs);
+    const chunking = resolveChunking(this.context.chunking, mimeType, args.chunking);
+    if (chunking) {
+      uploadArgs.chunking = chunking;
+    }
+
+    // Upload the redacted text instead of the file when the scan changed it
+    const upload = () =>
+      redactedContent === undefined
+        ? geminiClient.uploadFile(uploadArgs)
+        : geminiClient.uploadContent({ ...uploadArgs, content: redactedContent });
+
+    // Return immediately and let the job manager track indexing
+    if (args.async) {
+      const job = uploadJobs.start(
+        { kind: "file", displayName: displayName, storeName: store.name },
+        extra?.authInfo?.clientId,
+        upload,
+      );
+      return {
+        success: true,
+        message: `Upload started: ${displayName}. Poll get_upload_status with jobId ${job.jobId}.${describeContentScan(scan)}`,
+        data: { ...job, chunking, contentScan: scan },
+      };
+    }
+
+    // Stop waiting for indexing if the client cancels the request
+    if (extra) {
+      uploadArgs.signal = extra.signal;
+    }
+
+    const result = await upload();
+    this.context.notifyResourceListChanged();
 
     return {
       success: true,
-      message: `File uploaded successfully: ${displayName}`,
+      message: `File uploaded successfully: ${displayName}${describeContentScan(scan)}`,
       data: {
         documentName: result.documentName,
         filePath: args.filePath,
         displayName,
         storeName: store.name,
+        chunking,
+        contentScan: scan,
       },
     };
   }
-
-  /**
-   * Simple MIME type mapping for common file types
-   */
-  private getMimeTypeFromExtension(ext: string): string {
-    const mimeTypes: Record<string, string> = {
-      pdf: "application/pdf",
-      txt: "text/plain",
-      md: "text/markdown",
-      html: "text/html",
-      json: "application/json",
-      xml: "application/xml",
-      csv: "text/csv",
-      doc: "application/msword",
-      docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      xls: "application/vnd.ms-excel",
-      xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-      ppt: "application/vnd.ms-powerpoint",
-      pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
-    };
-
-    return mimeTypes[ext] ?? "application/octet-stream";
-  }
 }
@@ -8,6 +8,10 @@ export type ServerConfig = {
     name: string;
     version: string;
   };
+  transport: {
+    type: TransportType;
+    port: number;
+  };
   mcp: {
     maxResponseSize: number;
     defaultPageSize: number;
@@ -19,8 +23,127 @@ export type ServerConfig = {
   gemini: {
     apiKey: string;
     storeDisplayName: string;
+    allowedStores: string[];
     model: string;
+    operationPolling: OperationPollingConfig;
+    retry: RetryConfig;
+    chunking: ChunkingSettings;
   };
+  fileAccess: FileAccessConfig;
+  contentScan: ContentScanConfig;
+  auth: AuthConfig;
+  http: HttpSessionConfig;
+  rateLimits: RateLimitConfig;
+  queryCache: QueryCacheConfig;
+  conversations: ConversationConfig;
+  // Additional MCP prompts, registered next to the built-in ones
+  prompts: PromptTemplateConfig[];
+}
+
+// Long-running operation polling (upload indexing)
+export type OperationPollingConfig = {
+  initialIntervalMs: number;
+  maxIntervalMs: number;
+  timeoutMs: number;
+}
+
+// Retries of transient Gemini API failures (exponential backoff with jitter)
+export type RetryConfig = {
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Whitespace chunking applied when a document is indexed
+export type ChunkingConfig = {
+  maxTokensPerChunk?: number;
+  maxOverlapTokens?: number;
+}
+
+// Chunking defaults: global, and per MIME type (e.g. "text/markdown")
+export type ChunkingSettings = {
+  default?: ChunkingConfig | undefined;
+  byMimeType: Record<string, ChunkingConfig>;
+}
+
+// Local file access policy for upload tools
+export type FileAccessConfig = {
+  // Directories local files may be read from; empty refuses all file uploads
+  allowedRoots: string[];
+  // Added to the built-in deny list (keys, .env files, cloud credentials)
+  denyPatterns: string[];
+  maxFileSizeBytes: number;
+}
+
+// Pre-upload secret / PII scanning
+export type ContentScanPolicy = "block" | "redact" | "warn" | "off";
+
+export type ContentScanConfig = {
+  policy: ContentScanPolicy;
+  detectPii: boolean;
+}
+
+// HTTP transport authentication
+// Scopes are hierarchical: admin includes upload, upload includes read
+export type AuthScope = "read" | "upload" | "admin";
+
+export type AuthConfig = {
+  tokens: { token: string; scope: AuthScope }[];
+  // Secret for HMAC-signed tokens (empty disables them)
+  hmacSecret: string;
+  // Without tokens or a secret, HTTP only listens on 127.0.0.1 unless this is set
+  allowUnauthenticated: boolean;
+}
+
+// Token bucket: up to `burst` requests at once, refilled at requestsPerMinute
+export type RateLimitRule = {
+  requestsPerMinute: number;
+  burst: number;
+}
+
+export type RateLimitConfig = {
+  // Per tool name, shared by all callers
+  tools: Record<string, RateLimitRule>;
+  // Per authenticated caller (or client address) on HTTP; null disables
+  httpPerCaller: RateLimitRule | null;
+  maxConcurrentGeminiCalls: number;
+}
+
+// Cache of query answers, invalidated when a store changes
+export type QueryCacheConfig = {
+  enabled: boolean;
+  ttlMs: number;
+  // In-memory LRU capacity
+  maxEntries: number;
+  // Also persist entries under this directory (empty keeps them in memory only)
+  directory: string;
+}
+
+// Multi-turn query conversations, kept in memory
+export type ConversationConfig = {
+  // History is dropped after this long without a query
+  idleTimeoutMs: number;
+  // The least recently used conversation is dropped beyond this
+  maxConversations: number;
+  // Question/answer pairs sent with each query; older turns are dropped
+  maxTurns: number;
+}
+
+// Parameterized MCP prompt
+export type PromptTemplateConfig = {
+  name: string;
+  title?: string;
+  description: string;
+  arguments?: PromptArgumentConfig[];
+  // Text with {{argument}} placeholders and {{#argument}}...{{/argument}}
+  // sections that are kept only when the argument is given
+  template: string;
+}
+
+type PromptArgumentConfig = {
+  name: string;
+  description?: string;
+  required?: boolean;
 }
 
 // Transport types
@@ -31,6 +154,14 @@ export type TransportConfig = {
   port?: number | undefined;
 }
 
+// Streamable HTTP session handling
+export type HttpSessionConfig = {
+  // One server and transport per request, no session ids (legacy mode)
+  stateless: boolean;
+  idleTimeoutMs: number;
+  maxSessions: number;
+}
+
 // MCP response types
 export type MCPToolResponse<T = unknown> = {
   success: boolean;
@@ -45,5 +176,38 @@ export type CustomMetadata = {
   numericValue?: number;
 }
 
+// Answer span supported by a citation (offsets are UTF-8 byte offsets into the answer text)
+export type CitationSupport = {
+  startIndex: number;
+  endIndex: number;
+  text?: string | undefined;
+};
+
+// Grounding source referenced by a RAG answer
+export type Citation = {
+  index: number;
+  documentName?: string | undefined;
+  displayName?: string | undefined;
+  uri?: string | undefined;
+  snippet?: string | undefined;
+  supports: CitationSupport[];
+};
+
+// Earlier question and grounded answer of a query conversation
+export type ConversationTurn = {
+  question: string;
+  answer: string;
+};
+
 // Simple metadata format for tool input (user-friendly)
 export type MetadataInput = Record<string, string | number>;
+
+// Structured metadata filter for query tool input
+export type MetadataFilterValue = string | number;
+
+export type MetadataFilter =
+  | { key: string; op: "eq" | "ne"; value: MetadataFilterValue }
+  | { key: string; op: "gt" | "gte" | "lt" | "lte"; value: number }
+  | { key: string; op: "in"; values: MetadataFilterValue[] }
+  | { and: MetadataFilter[] }
+  | { or: MetadataFilter[] };
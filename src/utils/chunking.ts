@@ -0,0 +1,125 @@
+/**
+ * Chunking configuration utilities
+ */
+
+import { z } from "zod";
+import type { ChunkingConfig, ChunkingSettings } from "../types/index.js";
+
+const MIN_TOKENS_PER_CHUNK = 16;
+const MAX_TOKENS_PER_CHUNK = 2048;
+
+/**
+ * Input schema for per-call chunking overrides
+ */
+export const chunkingInputSchema = z
+  .object({
+    maxTokensPerChunk: z
+      .number()
+      .int()
+      .min(MIN_TOKENS_PER_CHUNK)
+      .max(MAX_TOKENS_PER_CHUNK)
+      .optional()
+      .describe(
+        `Maximum number of tokens per chunk (${String(MIN_TOKENS_PER_CHUNK)}-${String(MAX_TOKENS_PER_CHUNK)})`,
+      ),
+    maxOverlapTokens: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe(
+        "Maximum number of overlapping tokens between adjacent chunks (must be less than maxTokensPerChunk)",
+      ),
+  })
+  .optional()
+  .describe(
+    "Chunking used when indexing. Overrides the server defaults for this upload. Smaller chunks suit short FAQ-style entries, larger chunks suit long reference documents.",
+  );
+
+/**
+ * Schema for chunking defaults in the server configuration
+ */
+export const chunkingConfigSchema = z
+  .object({
+    maxTokensPerChunk: z
+      .number()
+      .int()
+      .min(MIN_TOKENS_PER_CHUNK)
+      .max(MAX_TOKENS_PER_CHUNK)
+      .optional(),
+    maxOverlapTokens: z.number().int().min(0).optional(),
+  })
+  .strict()
+  .refine(
+    ({ maxTokensPerChunk, maxOverlapTokens }) =>
+      maxTokensPerChunk === undefined ||
+      maxOverlapTokens === undefined ||
+      maxOverlapTokens < maxTokensPerChunk,
+    {
+      message: "maxOverlapTokens must be less than maxTokensPerChunk",
+      path: ["maxOverlapTokens"],
+    },
+  );
+
+/**
+ * Validate a chunking configuration
+ * @throws Error naming the offending setting if a value is out of range
+ */
+function validateChunking(chunking: ChunkingConfig, label: string): void {
+  const { maxTokensPerChunk, maxOverlapTokens } = chunking;
+
+  if (
+    maxTokensPerChunk !== undefined &&
+    (!Number.isInteger(maxTokensPerChunk) ||
+      maxTokensPerChunk < MIN_TOKENS_PER_CHUNK ||
+      maxTokensPerChunk > MAX_TOKENS_PER_CHUNK)
+  ) {
+    throw new Error(
+      `${label}: maxTokensPerChunk must be an integer between ${String(MIN_TOKENS_PER_CHUNK)} and ${String(MAX_TOKENS_PER_CHUNK)}`,
+    );
+  }
+
+  if (
+    maxOverlapTokens !== undefined &&
+    (!Number.isInteger(maxOverlapTokens) || maxOverlapTokens < 0)
+  ) {
+    throw new Error(`${label}: maxOverlapTokens must be a non-negative integer`);
+  }
+
+  if (
+    maxTokensPerChunk !== undefined &&
+    maxOverlapTokens !== undefined &&
+    maxOverlapTokens >= maxTokensPerChunk
+  ) {
+    throw new Error(
+      `${label}: maxOverlapTokens (${String(maxOverlapTokens)}) must be less than maxTokensPerChunk (${String(maxTokensPerChunk)})`,
+    );
+  }
+}
+
+/**
+ * Resolve the chunking for an upload
+ * Per-call override > per-MIME-type default > global default.
+ * Returns null when nothing is configured (the service default applies).
+ */
+export function resolveChunking(
+  settings: ChunkingSettings,
+  mimeType: string,
+  override?: ChunkingConfig,
+): ChunkingConfig | null {
+  const resolved: ChunkingConfig = {
+    ...settings.default,
+    ...settings.byMimeType[mimeType],
+    ...override,
+  };
+
+  if (
+    resolved.maxTokensPerChunk === undefined &&
+    resolved.maxOverlapTokens === undefined
+  ) {
+    return null;
+  }
+
+  validateChunking(resolved, "Chunking");
+  return resolved;
+}
@@ -0,0 +1,49 @@
+/**
+ * Citation rendering utilities
+ */
+
+import type { Citation } from "../types/index.js";
+
+/**
+ * Insert inline [n] citation markers into answer text
+ * Markers are placed at the end of each supported span; spans supported by
+ * several citations get all their markers together (e.g. "[1][3]")
+ */
+export function renderInlineCitations(
+  text: string,
+  citations: Citation[],
+): string {
+  // Group citation indices by span end (UTF-8 byte offset)
+  const markersByOffset = new Map<number, Set<number>>();
+  for (const citation of citations) {
+    for (const support of citation.supports) {
+      const markers = markersByOffset.get(support.endIndex) ?? new Set();
+      markers.add(citation.index);
+      markersByOffset.set(support.endIndex, markers);
+    }
+  }
+
+  if (markersByOffset.size === 0) {
+    return text;
+  }
+
+  const bytes = new TextEncoder().encode(text);
+  const decoder = new TextDecoder();
+  const offsets = [...markersByOffset.keys()]
+    .filter((offset) => offset >= 0 && offset <= bytes.length)
+    .sort((a, b) => a - b);
+
+  let result = "";
+  let previous = 0;
+  for (const offset of offsets) {
+    const markers = [...(markersByOffset.get(offset) ?? [])]
+      .sort((a, b) => a - b)
+      .map((index) => `[${String(index)}]`)
+      .join("");
+    result += decoder.decode(bytes.subarray(previous, offset)) + markers;
+    previous = offset;
+  }
+  result += decoder.decode(bytes.subarray(previous));
+
+  return result;
+}
@@ -0,0 +1,64 @@
+/**
+ * Concurrency utilities
+ */
+
+/**
+ * Map over items with at most `limit` tasks running at once
+ * Results keep the order of the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index] as T, index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker),
+  );
+
+  return results;
+}
+
+/**
+ * Limits how many tasks run at the same time; further tasks wait in FIFO order
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Run a task once a slot is free, releasing the slot when it settles
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>((resolve) => {
+        this.waiting.push(resolve);
+      });
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      // Hand the slot directly to the next waiting task
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
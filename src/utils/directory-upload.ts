@@ -0,0 +1,206 @@
+/**
+ * Shared helpers for directory upload and sync tools
+ */
+
+import { z } from "zod";
+import type {
+  ContentScanConfig,
+  CustomMetadata,
+  FileAccessConfig,
+  MetadataInput,
+} from "../types/index.js";
+import { checkFileAccess, FileAccessError } from "../security/file-access.js";
+import { ContentPolicyError, scanFile } from "../security/content-scanner.js";
+import type { ContentScanReport } from "../security/content-scanner.js";
+import { convertMetadataInput } from "./metadata.js";
+import { detectMimeType } from "./mime-type.js";
+
+/**
+ * Default per-file size limit (File Search accepts files up to 100 MB)
+ */
+const DEFAULT_MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024;
+
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Metadata key used to record each file's path relative to the uploaded root
+ */
+const RELATIVE_PATH_METADATA_KEY = "relativePath";
+
+/**
+ * Maximum number of custom metadata entries per document
+ */
+const MAX_METADATA_ENTRIES = 20;
+
+/**
+ * Input schema fields shared by directory tools
+ */
+export const directorySelectionFields = {
+  rootPath: z
+    .string()
+    .min(1)
+    .describe("Absolute path to the directory (e.g., /path/to/docs)"),
+  include: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      "Only include files matching at least one of these globs. Globs without a slash match file names at any depth (e.g., \"*.md\"); globs with a slash match the path relative to rootPath (e.g., \"guides/**/*.md\").",
+    ),
+  exclude: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      "Skip files and directories matching any of these globs (e.g., \"node_modules\", \"*.min.js\")",
+    ),
+  respectGitignore: z
+    .boolean()
+    .optional()
+    .describe("Skip files ignored by .gitignore files (default: true)"),
+  maxFileSizeBytes: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Skip files larger than this many bytes (default: 100 MB; the server's upload size limit always applies)",
+    ),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(16)
+    .optional()
+    .describe(
+      `Number of files uploaded in parallel (default: ${String(DEFAULT_CONCURRENCY)})`,
+    ),
+  metadata: z
+    .record(z.union([z.string(), z.number()]))
+    .optional()
+    .describe(
+      "Custom metadata added to every uploaded document, in addition to relativePath. Example: {\"category\": \"guide\"}",
+    ),
+};
+
+/**
+ * Decide whether a walked file can be uploaded
+ * Returns the MIME type to upload with and the real path checked by the file
+ * access policy, or the reason the file is skipped (including files blocked
+ * by the policy). Every later read must use realPath, so a symlink swapped in
+ * after the check cannot lead elsewhere.
+ */
+export async function classifyFile(
+  file: { absolutePath: string; sizeBytes: number },
+  fileAccess: FileAccessConfig,
+  maxFileSizeBytes = DEFAULT_MAX_FILE_SIZE_BYTES,
+): Promise<{ mimeType: string; realPath: string } | { skipReason: string }> {
+  let realPath: string;
+  try {
+    realPath = await checkFileAccess(file.absolutePath, fileAccess);
+  } catch (error) {
+    if (error instanceof FileAccessError) {
+      return { skipReason: `blocked by rule "${error.rule}"` };
+    }
+    throw error;
+  }
+
+  if (file.sizeBytes === 0) {
+    return { skipReason: "empty file" };
+  }
+  if (file.sizeBytes > maxFileSizeBytes) {
+    return {
+      skipReason: `file size ${String(file.sizeBytes)} bytes exceeds limit of ${String(maxFileSizeBytes)} bytes`,
+    };
+  }
+
+  const detection = await detectMimeType(realPath);
+  if (!detection.supported) {
+    return { skipReason: `unsupported file type: ${detection.reason}` };
+  }
+
+  return { mimeType: detection.mimeType, realPath };
+}
+
+/**
+ * Content scan findings of one file, as listed in directory tool summaries
+ */
+export type FileScanFindings = {
+  relativePath: string;
+  outcome: "blocked" | "redacted" | "reported";
+  findings: ContentScanReport["findings"];
+};
+
+/**
+ * Run the content scan on a file selected for upload
+ * @param file - Relative path and the real path returned by classifyFile
+ * @returns Findings for the summary (if any), the redacted text to upload
+ * instead of the file, or the reason the block policy refused the file
+ */
+export async function scanDirectoryFile(
+  file: { realPath: string; relativePath: string },
+  contentScan: ContentScanConfig,
+): Promise<{
+  findings?: FileScanFindings;
+  redactedContent?: string;
+  skipReason?: string;
+}> {
+  const { relativePath } = file;
+  try {
+    const { report, redactedContent } = await scanFile(
+      file.realPath,
+      relativePath,
+      contentScan,
+    );
+    if (report.findings.length === 0) {
+      return {};
+    }
+
+    const findings: FileScanFindings = {
+      relativePath,
+      outcome: report.redacted ? "redacted" : "reported",
+      findings: report.findings,
+    };
+    return redactedContent === undefined ? { findings } : { findings, redactedContent };
+  } catch (error) {
+    if (error instanceof ContentPolicyError) {
+      const types = [...new Set(error.findings.map((finding) => finding.type))];
+      return {
+        findings: { relativePath, outcome: "blocked", findings: error.findings },
+        skipReason: `blocked by content scan (${types.join(", ")})`,
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sentence appended to directory tool messages when files had scan findings
+ */
+export function describeScanFindings(findings: FileScanFindings[]): string {
+  return findings.length === 0
+    ? ""
+    : ` ${String(findings.length)} file(s) had potential secrets or personal data (see contentScan).`;
+}
+
+/**
+ * Ensure user metadata leaves room for the automatic relativePath entry
+ */
+export function validateDirectoryMetadata(metadata?: MetadataInput): void {
+  if (Object.keys(metadata ?? {}).length >= MAX_METADATA_ENTRIES) {
+    throw new Error(
+      `metadata can contain at most ${String(MAX_METADATA_ENTRIES - 1)} entries because relativePath is added automatically`,
+    );
+  }
+}
+
+/**
+ * Build document metadata for a file: user metadata plus its relative path
+ */
+export function buildFileMetadata(
+  relativePath: string,
+  metadata?: MetadataInput,
+): CustomMetadata[] {
+  return convertMetadataInput({
+    ...metadata,
+    [RELATIVE_PATH_METADATA_KEY]: relativePath,
+  });
+}
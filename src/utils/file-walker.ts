@@ -0,0 +1,112 @@
+/**
+ * Directory traversal utilities for bulk ingestion
+ */
+
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { createGlobMatcher, isGitignored, parseGitignore } from "./glob.js";
+
+type WalkOptions = {
+  include?: string[] | undefined;
+  exclude?: string[] | undefined;
+  respectGitignore?: boolean | undefined;
+};
+
+type WalkedFile = {
+  absolutePath: string;
+  relativePath: string;
+  sizeBytes: number;
+};
+
+type WalkResult = {
+  files: WalkedFile[];
+  excludedCount: number;
+};
+
+/**
+ * Directories that are never traversed
+ */
+const ALWAYS_SKIPPED_DIRECTORIES = new Set([".git"]);
+
+/**
+ * Recursively collect regular files under a root directory
+ * Symbolic links are not followed. Relative paths use forward slashes.
+ */
+export async function walkFiles(
+  rootPath: string,
+  options: WalkOptions = {},
+): Promise<WalkResult> {
+  const rootStat = await stat(rootPath);
+  if (!rootStat.isDirectory()) {
+    throw new Error(`Not a directory: ${rootPath}`);
+  }
+
+  const isIncluded =
+    options.include && options.include.length > 0
+      ? createGlobMatcher(options.include)
+      : () => true;
+  const isExcluded = createGlobMatcher(options.exclude ?? []);
+
+  const files: WalkedFile[] = [];
+  let excludedCount = 0;
+
+  const visit = async (
+    relativeDir: string,
+    gitignoreRules: ReturnType<typeof parseGitignore>,
+  ): Promise<void> => {
+    const absoluteDir = join(rootPath, relativeDir);
+    const entries = await readdir(absoluteDir, { withFileTypes: true });
+
+    let rules = gitignoreRules;
+    if (options.respectGitignore) {
+      const gitignore = entries.find(
+        (entry) => entry.isFile() && entry.name === ".gitignore",
+      );
+      if (gitignore) {
+        const content = await readFile(join(absoluteDir, ".gitignore"), "utf8");
+        rules = [...rules, ...parseGitignore(content, relativeDir)];
+      }
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const relativePath =
+        relativeDir === "" ? entry.name : `${relativeDir}/${entry.name}`;
+
+      if (entry.isDirectory()) {
+        if (
+          ALWAYS_SKIPPED_DIRECTORIES.has(entry.name) ||
+          isGitignored(rules, relativePath, true) ||
+          isExcluded(relativePath)
+        ) {
+          excludedCount++;
+          continue;
+        }
+        await visit(relativePath, rules);
+        continue;
+      }
+
+      if (!entry.isFile()) {
+        continue;
+      }
+
+      if (
+        isGitignored(rules, relativePath, false) ||
+        !isIncluded(relativePath) ||
+        isExcluded(relativePath)
+      ) {
+        excludedCount++;
+        continue;
+      }
+
+      const absolutePath = join(absoluteDir, entry.name);
+      const fileStat = await stat(absolutePath);
+      files.push({ absolutePath, relativePath, sizeBytes: fileStat.size });
+    }
+  };
+
+  await visit("", []);
+
+  return { files, excludedCount };
+}
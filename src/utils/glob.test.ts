@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { createGlobMatcher, isGitignored, parseGitignore } from "./glob.js";
+
+describe("createGlobMatcher", () => {
+  it("matches patterns without a slash against the file name at any depth", () => {
+    const matches = createGlobMatcher(["*.md"]);
+
+    expect(matches("README.md")).toBe(true);
+    expect(matches("docs/guide/intro.md")).toBe(true);
+    expect(matches("docs/guide.mdx")).toBe(false);
+  });
+
+  it("matches patterns with a slash against the whole relative path", () => {
+    const matches = createGlobMatcher(["docs/**/*.md", "./src/*.ts"]);
+
+    expect(matches("docs/a.md")).toBe(true);
+    expect(matches("docs/a/b/c.md")).toBe(true);
+    expect(matches("other/docs/a.md")).toBe(false);
+    expect(matches("src/index.ts")).toBe(true);
+    expect(matches("src/utils/glob.ts")).toBe(false);
+  });
+
+  it("supports ?, character classes and alternatives", () => {
+    const matches = createGlobMatcher(["file?.txt", "v[0-9].log", "*.{yaml,yml}", "x[!a].c"]);
+
+    expect(matches("file1.txt")).toBe(true);
+    expect(matches("file10.txt")).toBe(false);
+    expect(matches("v7.log")).toBe(true);
+    expect(matches("va.log")).toBe(false);
+    expect(matches("config.yml")).toBe(true);
+    expect(matches("config.yaml")).toBe(true);
+    expect(matches("config.json")).toBe(false);
+    expect(matches("xb.c")).toBe(true);
+    expect(matches("xa.c")).toBe(false);
+  });
+
+  it("treats regular expression characters literally", () => {
+    const matches = createGlobMatcher(["a+b(1).txt"]);
+
+    expect(matches("a+b(1).txt")).toBe(true);
+    expect(matches("aab1.txt")).toBe(false);
+  });
+
+  it("matches nothing without patterns", () => {
+    expect(createGlobMatcher([])("a.txt")).toBe(false);
+  });
+});
+
+describe("gitignore rules", () => {
+  it("ignores comments and blank lines", () => {
+    expect(parseGitignore("# comment\n\n   \n", "")).toEqual([]);
+  });
+
+  it("matches unanchored patterns by name at any depth", () => {
+    const rules = parseGitignore("*.log\nnode_modules/\n", "");
+
+    expect(isGitignored(rules, "a/b/debug.log", false)).toBe(true);
+    expect(isGitignored(rules, "a/node_modules", true)).toBe(true);
+    expect(isGitignored(rules, "a/node_modules", false)).toBe(false);
+    expect(isGitignored(rules, "a/b/debug.txt", false)).toBe(false);
+  });
+
+  it("anchors patterns containing a slash to the .gitignore directory", () => {
+    const rules = parseGitignore("/build\ndocs/*.tmp\n", "");
+
+    expect(isGitignored(rules, "build", true)).toBe(true);
+    expect(isGitignored(rules, "src/build", true)).toBe(false);
+    expect(isGitignored(rules, "docs/a.tmp", false)).toBe(true);
+    expect(isGitignored(rules, "src/docs/a.tmp", false)).toBe(false);
+  });
+
+  it("lets the last matching rule win, including negations", () => {
+    const rules = parseGitignore("*.env\n!example.env\n", "");
+
+    expect(isGitignored(rules, "prod.env", false)).toBe(true);
+    expect(isGitignored(rules, "config/example.env", false)).toBe(false);
+  });
+
+  it("applies nested .gitignore rules only below their directory", () => {
+    const rules = [
+      ...parseGitignore("*.txt\n", ""),
+      ...parseGitignore("!keep.txt\n/out\n", "packages/app"),
+    ];
+
+    expect(isGitignored(rules, "notes.txt", false)).toBe(true);
+    expect(isGitignored(rules, "keep.txt", false)).toBe(true);
+    expect(isGitignored(rules, "packages/app/keep.txt", false)).toBe(false);
+    expect(isGitignored(rules, "packages/app/out", true)).toBe(true);
+    expect(isGitignored(rules, "packages/out", true)).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Glob and .gitignore matching utilities
+ *
+ * Supports the subset of glob syntax needed for file selection:
+ * `*`, `**`, `?`, `[...]` character classes and `{a,b}` alternatives.
+ * Paths are always relative and use forward slashes.
+ */
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob.charAt(i);
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, "**" matches anything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      const end = glob.indexOf("}", i + 1);
+      if (end === -1) {
+        source += "\\{";
+      } else {
+        const alternatives = glob
+          .slice(i + 1, end)
+          .split(",")
+          .map((alternative) => globToRegExp(alternative).source.slice(1, -1));
+        source += `(?:${alternatives.join("|")})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Build a matcher for a list of globs
+ * Patterns without a slash match the file name at any depth (e.g. "*.md"),
+ * patterns with a slash match the whole relative path (e.g. "docs/**\/*.md")
+ */
+export function createGlobMatcher(
+  patterns: string[],
+): (relativePath: string) => boolean {
+  const matchers = patterns.map((pattern) => {
+    const regExp = globToRegExp(pattern.replace(/^\.?\//, ""));
+    return pattern.includes("/")
+      ? (path: string) => regExp.test(path)
+      : (path: string) => regExp.test(path.slice(path.lastIndexOf("/") + 1));
+  });
+
+  return (relativePath) => matchers.some((matches) => matches(relativePath));
+}
+
+type GitignoreRule = {
+  baseDir: string;
+  regExp: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  anchored: boolean;
+};
+
+/**
+ * Parse the contents of a .gitignore file
+ * @param baseDir - Directory containing the .gitignore, relative to the walk root ("" for the root)
+ */
+export function parseGitignore(
+  content: string,
+  baseDir: string,
+): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+
+    const negated = line.startsWith("!");
+    if (negated) {
+      line = line.slice(1);
+    }
+    line = line.replace(/^\\/, "");
+
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore directory
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    if (line === "") {
+      continue;
+    }
+
+    rules.push({
+      baseDir,
+      regExp: globToRegExp(line),
+      negated,
+      directoryOnly,
+      anchored,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Check a path against .gitignore rules (last matching rule wins)
+ */
+export function isGitignored(
+  rules: GitignoreRule[],
+  relativePath: string,
+  isDirectory: boolean,
+): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+
+    const prefix = rule.baseDir === "" ? "" : `${rule.baseDir}/`;
+    if (!relativePath.startsWith(prefix)) {
+      continue;
+    }
+
+    const localPath = relativePath.slice(prefix.length);
+    const subject = rule.anchored
+      ? localPath
+      : localPath.slice(localPath.lastIndexOf("/") + 1);
+
+    if (rule.regExp.test(subject)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
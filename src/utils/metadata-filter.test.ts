@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { compileMetadataFilter } from "./metadata-filter.js";
+
+describe("compileMetadataFilter", () => {
+  it("compiles comparisons, quoting string values", () => {
+    expect(compileMetadataFilter({ key: "author", op: "eq", value: "Ada \"L\"" })).toBe(
+      'author = "Ada \\"L\\""',
+    );
+    expect(compileMetadataFilter({ key: "year", op: "gte", value: 2020 })).toBe("year >= 2020");
+    expect(compileMetadataFilter({ key: "draft", op: "ne", value: 1 })).toBe("draft != 1");
+  });
+
+  it("expands in into an OR of equalities", () => {
+    expect(compileMetadataFilter({ key: "lang", op: "in", values: ["en", "de"] })).toBe(
+      '(lang = "en" OR lang = "de")',
+    );
+    expect(compileMetadataFilter({ key: "lang", op: "in", values: ["en"] })).toBe('lang = "en"');
+  });
+
+  it("compiles nested and/or groups", () => {
+    expect(
+      compileMetadataFilter({
+        and: [
+          { key: "year", op: "lt", value: 2024 },
+          {
+            or: [
+              { key: "team", op: "eq", value: "core" },
+              { key: "team", op: "eq", value: "docs" },
+            ],
+          },
+        ],
+      }),
+    ).toBe('(year < 2024 AND (team = "core" OR team = "docs"))');
+    expect(compileMetadataFilter({ or: [{ key: "a", op: "eq", value: 1 }] })).toBe("a = 1");
+  });
+
+  it("reports the path of the offending condition", () => {
+    expect(() =>
+      compileMetadataFilter({
+        and: [
+          { key: "year", op: "gt", value: 2000 },
+          { key: "year", op: "gt", value: "2000" },
+        ],
+      }),
+    ).toThrow(/^Invalid metadata filter at filter\.and\[1\]\.value: /);
+  });
+
+  it("rejects invalid keys, empty groups and unknown fields", () => {
+    expect(() => compileMetadataFilter({ key: "bad-key", op: "eq", value: 1 })).toThrow(
+      /at filter\.key: Metadata key must start with a letter/,
+    );
+    expect(() => compileMetadataFilter({ and: [] })).toThrow(/requires at least one filter/);
+    expect(() => compileMetadataFilter({ key: "a", op: "in", values: [] })).toThrow(
+      /requires at least one value/,
+    );
+    expect(() => compileMetadataFilter({ key: "a", op: "eq", value: 1, extra: true })).toThrow(
+      /^Invalid metadata filter/,
+    );
+  });
+
+  it("rejects filters nested deeper than the maximum depth", () => {
+    let filter: unknown = { key: "a", op: "eq", value: 1 };
+    for (let depth = 0; depth < 8; depth++) {
+      filter = { and: [filter] };
+    }
+
+    expect(() => compileMetadataFilter(filter)).toThrow(/nesting exceeds maximum depth of 8/);
+  });
+});
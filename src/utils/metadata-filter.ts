@@ -0,0 +1,172 @@
+/**
+ * Metadata filter validation and compilation utilities
+ *
+ * Compiles the structured filter accepted by tools into the AIP-160
+ * filter expression expected by the File Search `metadataFilter` field.
+ */
+
+import { z } from "zod";
+import type { MetadataFilter, MetadataFilterValue } from "../types/index.js";
+
+/**
+ * Maximum nesting depth of and/or groups
+ */
+const MAX_FILTER_DEPTH = 8;
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const keySchema = z
+  .string()
+  .regex(
+    KEY_PATTERN,
+    "Metadata key must start with a letter or underscore and contain only letters, digits and underscores",
+  );
+
+const valueSchema = z.union([z.string(), z.number().finite()]);
+
+const conditionSchema = z.discriminatedUnion("op", [
+  z
+    .object({
+      key: keySchema,
+      op: z.enum(["eq", "ne"]),
+      value: valueSchema,
+    })
+    .strict(),
+  z
+    .object({
+      key: keySchema,
+      op: z.enum(["gt", "gte", "lt", "lte"]),
+      value: z.number().finite(),
+    })
+    .strict(),
+  z
+    .object({
+      key: keySchema,
+      op: z.literal("in"),
+      values: z.array(valueSchema).min(1, "\"in\" requires at least one value"),
+    })
+    .strict(),
+]);
+
+/**
+ * Zod schema for structured metadata filters
+ */
+const metadataFilterSchema: z.ZodType<MetadataFilter> = z.lazy(() =>
+  z.union([
+    conditionSchema,
+    z
+      .object({
+        and: z
+          .array(metadataFilterSchema)
+          .min(1, "\"and\" requires at least one filter"),
+      })
+      .strict(),
+    z
+      .object({
+        or: z
+          .array(metadataFilterSchema)
+          .min(1, "\"or\" requires at least one filter"),
+      })
+      .strict(),
+  ]),
+);
+
+const COMPARISON_OPERATORS = {
+  eq: "=",
+  ne: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+} as const;
+
+function formatValue(value: MetadataFilterValue): string {
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+function compileNode(
+  filter: MetadataFilter,
+  path: string,
+  depth: number,
+): string {
+  if (depth > MAX_FILTER_DEPTH) {
+    throw new Error(
+      `Invalid metadata filter at ${path}: nesting exceeds maximum depth of ${String(MAX_FILTER_DEPTH)}`,
+    );
+  }
+
+  if ("and" in filter || "or" in filter) {
+    const [operator, children] =
+      "and" in filter
+        ? (["AND", filter.and] as const)
+        : (["OR", filter.or] as const);
+    const compiled = children.map((child, index) =>
+      compileNode(
+        child,
+        `${path}.${operator.toLowerCase()}[${String(index)}]`,
+        depth + 1,
+      ),
+    );
+    return compiled.length === 1
+      ? (compiled[0] ?? "")
+      : `(${compiled.join(` ${operator} `)})`;
+  }
+
+  if (filter.op === "in") {
+    const clauses = filter.values.map(
+      (value) => `${filter.key} = ${formatValue(value)}`,
+    );
+    return clauses.length === 1
+      ? (clauses[0] ?? "")
+      : `(${clauses.join(" OR ")})`;
+  }
+
+  return `${filter.key} ${COMPARISON_OPERATORS[filter.op]} ${formatValue(filter.value)}`;
+}
+
+/**
+ * Pick the most specific issue from a (possibly nested) union failure
+ * The branch that got furthest into the input is the one the caller meant
+ */
+function mostSpecificIssue(issues: z.ZodIssue[]): z.ZodIssue | undefined {
+  let best: z.ZodIssue | undefined;
+  for (const issue of issues) {
+    const candidate =
+      issue.code === z.ZodIssueCode.invalid_union
+        ? mostSpecificIssue(issue.unionErrors.flatMap((error) => error.issues))
+        : issue;
+    if (candidate && (!best || candidate.path.length > best.path.length)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (result, segment) =>
+      typeof segment === "number"
+        ? `${result}[${String(segment)}]`
+        : `${result}.${segment}`,
+    "filter",
+  );
+}
+
+/**
+ * Compile a structured metadata filter into an AIP-160 filter expression
+ * @throws Error describing the offending path if the filter is malformed
+ */
+export function compileMetadataFilter(filter: unknown): string {
+  const parsed = metadataFilterSchema.safeParse(filter);
+  if (!parsed.success) {
+    const issue = mostSpecificIssue(parsed.error.issues);
+    throw new Error(
+      `Invalid metadata filter at ${formatPath(issue?.path ?? [])}: ${issue?.message ?? "malformed filter"}`,
+    );
+  }
+
+  return compileNode(parsed.data, "filter", 1);
+}
@@ -17,3 +17,31 @@ export function convertMetadataInput(
     return { key, numericValue: value };
   });
 }
+
+/**
+ * Convert Gemini API CustomMetadata back to simple key-value format
+ */
+export function convertCustomMetadata(
+  metadata: CustomMetadata[],
+): MetadataInput {
+  const result: MetadataInput = {};
+  for (const entry of metadata) {
+    if (entry.stringValue !== undefined) {
+      result[entry.key] = entry.stringValue;
+    } else if (entry.numericValue !== undefined) {
+      result[entry.key] = entry.numericValue;
+    }
+  }
+  return result;
+}
+
+/**
+ * Check whether CustomMetadata contains every given key-value pair
+ */
+export function matchesMetadata(
+  metadata: CustomMetadata[],
+  match: MetadataInput,
+): boolean {
+  const actual = convertCustomMetadata(metadata);
+  return Object.entries(match).every(([key, value]) => actual[key] === value);
+}
@@ -0,0 +1,95 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { decodeUtf8Text, detectMimeType } from "./mime-type.js";
+
+describe("detectMimeType", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "mime-type-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function detect(name: string, content: string | Uint8Array) {
+    const filePath = join(directory, name);
+    await writeFile(filePath, content);
+    return detectMimeType(filePath);
+  }
+
+  it("identifies PDFs by their magic bytes whatever the extension", async () => {
+    expect(await detect("report.txt", "%PDF-1.7\n...")).toEqual({
+      supported: true,
+      mimeType: "application/pdf",
+      source: "magic",
+    });
+  });
+
+  it("identifies OOXML documents inside zip containers", async () => {
+    const zip = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from("word/document.xml")]);
+
+    expect(await detect("letter", zip)).toEqual({
+      supported: true,
+      mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      source: "magic",
+    });
+    expect(await detect("archive.zip", Buffer.from([0x50, 0x4b, 0x03, 0x04, 1, 2]))).toMatchObject({
+      supported: false,
+    });
+  });
+
+  it("rejects known binary formats", async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    expect(await detect("notes.md", png)).toEqual({
+      supported: false,
+      reason: "binary file (PNG image)",
+    });
+  });
+
+  it("refines text files by extension", async () => {
+    expect(await detect("README.md", "# Title\n")).toEqual({
+      supported: true,
+      mimeType: "text/markdown",
+      source: "extension",
+    });
+    expect(await detect("data.json", "{}")).toEqual({
+      supported: true,
+      mimeType: "application/json",
+      source: "extension",
+    });
+  });
+
+  it("uploads text without a known extension as plain text", async () => {
+    expect(await detect("Dockerfile", "FROM node:22\n")).toEqual({
+      supported: true,
+      mimeType: "text/plain",
+      source: "content",
+    });
+  });
+
+  it("rejects content that is not UTF-8 text", async () => {
+    expect(await detect("data.txt", Buffer.from([0x41, 0x00, 0x42]))).toEqual({
+      supported: false,
+      reason: "binary file (content is not UTF-8 text)",
+    });
+    expect(await detect("latin1.txt", Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x21]))).toMatchObject({
+      supported: false,
+    });
+  });
+});
+
+describe("decodeUtf8Text", () => {
+  it("decodes UTF-8 text", () => {
+    expect(decodeUtf8Text(Buffer.from("héllo ✓"))).toBe("héllo ✓");
+  });
+
+  it("returns undefined for NUL bytes or invalid UTF-8", () => {
+    expect(decodeUtf8Text(Buffer.from([0x61, 0x00]))).toBeUndefined();
+    expect(decodeUtf8Text(Buffer.from([0xff, 0xfe, 0x61]))).toBeUndefined();
+  });
+});
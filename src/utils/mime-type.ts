@@ -0,0 +1,393 @@
+/**
+ * MIME type detection utilities
+ *
+ * Detection order:
+ * 1. Magic bytes for PDF, Office (OOXML zip / legacy OLE2) and known binary formats
+ * 2. Extension table covering code, markup and data formats
+ * 3. UTF-8 text heuristic on the file head
+ *
+ * Text files whose type File Search does not index natively are uploaded
+ * as text/plain. Binary files that are not a supported document format are
+ * rejected before any upload is attempted.
+ */
+
+import { open } from "node:fs/promises";
+import { basename, extname } from "node:path";
+
+type MimeDetection =
+  | { supported: true; mimeType: string; source: "magic" | "extension" | "content" }
+  | { supported: false; reason: string };
+
+/**
+ * Number of leading bytes inspected for magic numbers and text heuristics
+ */
+const SNIFF_BYTES = 8192;
+
+/**
+ * Maximum share of control characters tolerated in a text file
+ */
+const MAX_CONTROL_CHAR_RATIO = 0.1;
+
+const OOXML_MIME_TYPES = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+} as const;
+
+const OLE2_MIME_TYPES: Record<string, string> = {
+  doc: "application/msword",
+  xls: "application/vnd.ms-excel",
+  ppt: "application/vnd.ms-powerpoint",
+};
+
+/**
+ * Extension to MIME type table for text formats (code, markup, data)
+ * Binary document formats are identified by magic bytes instead
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  // Plain text and markup
+  rtf: "text/rtf",
+  txt: "text/plain",
+  text: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  mdx: "text/markdown",
+  rst: "text/x-rst",
+  adoc: "text/plain",
+  asciidoc: "text/plain",
+  org: "text/plain",
+  tex: "application/x-tex",
+  latex: "application/x-latex",
+  html: "text/html",
+  htm: "text/html",
+  xhtml: "text/html",
+  xml: "application/xml",
+  xsd: "application/xml",
+  svg: "application/xml",
+  css: "text/css",
+  scss: "text/x-scss",
+  sass: "text/x-sass",
+  less: "text/plain",
+  // Data and configuration
+  json: "application/json",
+  jsonl: "application/json",
+  ndjson: "application/json",
+  ipynb: "application/json",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  yaml: "text/yaml",
+  yml: "text/yaml",
+  toml: "text/plain",
+  ini: "text/plain",
+  cfg: "text/plain",
+  conf: "text/plain",
+  env: "text/plain",
+  properties: "text/plain",
+  sql: "application/sql",
+  graphql: "text/plain",
+  gql: "text/plain",
+  proto: "text/plain",
+  // Source code
+  js: "text/javascript",
+  mjs: "text/javascript",
+  cjs: "text/javascript",
+  jsx: "text/jsx",
+  ts: "application/typescript",
+  mts: "application/typescript",
+  cts: "application/typescript",
+  tsx: "application/typescript",
+  py: "text/x-python",
+  pyi: "text/x-python",
+  rb: "text/x-ruby-script",
+  php: "application/x-php",
+  java: "text/x-java",
+  kt: "text/x-kotlin",
+  kts: "text/x-kotlin",
+  scala: "text/x-scala",
+  go: "text/x-go",
+  rs: "text/x-rust",
+  c: "text/x-csrc",
+  h: "text/x-chdr",
+  cc: "text/x-c++src",
+  cpp: "text/x-c++src",
+  cxx: "text/x-c++src",
+  hpp: "text/x-c++hdr",
+  hh: "text/x-c++hdr",
+  cs: "text/x-csharp",
+  swift: "text/x-swift",
+  m: "text/x-objcsrc",
+  lua: "text/x-lua",
+  pl: "text/x-perl",
+  pm: "text/x-perl",
+  r: "text/x-rsrc",
+  rmd: "text/x-r-markdown",
+  dart: "application/dart",
+  hs: "text/plain",
+  lhs: "text/x-literate-haskell",
+  ex: "text/plain",
+  exs: "text/plain",
+  erl: "text/plain",
+  clj: "text/plain",
+  lisp: "text/x-lisp",
+  scm: "text/x-scheme",
+  tcl: "text/x-tcl",
+  pas: "text/x-pascal",
+  asm: "text/x-asm",
+  s: "text/x-asm",
+  vb: "text/x-vbasic",
+  sh: "application/x-sh",
+  bash: "application/x-sh",
+  zsh: "application/x-zsh",
+  csh: "application/x-csh",
+  ps1: "application/x-powershell",
+  bat: "text/plain",
+  vue: "text/plain",
+  svelte: "text/plain",
+  astro: "text/plain",
+  diff: "text/x-diff",
+  patch: "text/x-diff",
+};
+
+/**
+ * MIME types File Search indexes natively
+ * Other detected text types are uploaded as text/plain
+ */
+const SUPPORTED_MIME_TYPES = new Set([
+  "application/pdf",
+  ...Object.values(OOXML_MIME_TYPES),
+  ...Object.values(OLE2_MIME_TYPES),
+  "application/vnd.oasis.opendocument.text",
+  "application/json",
+  "application/xml",
+  "application/sql",
+  "application/typescript",
+  "application/dart",
+  "application/x-php",
+  "application/x-sh",
+  "application/x-zsh",
+  "application/x-csh",
+  "application/x-powershell",
+  "application/x-tex",
+  "application/x-latex",
+  "text/plain",
+  "text/markdown",
+  "text/html",
+  "text/css",
+  "text/csv",
+  "text/tab-separated-values",
+  "text/rtf",
+  "text/yaml",
+  "text/javascript",
+  "text/jsx",
+  "text/x-rst",
+  "text/x-python",
+  "text/x-ruby-script",
+  "text/x-java",
+  "text/x-kotlin",
+  "text/x-scala",
+  "text/x-go",
+  "text/x-rust",
+  "text/x-csrc",
+  "text/x-chdr",
+  "text/x-c++src",
+  "text/x-c++hdr",
+  "text/x-csharp",
+  "text/x-swift",
+  "text/x-objcsrc",
+  "text/x-lua",
+  "text/x-perl",
+  "text/x-rsrc",
+  "text/x-r-markdown",
+  "text/x-literate-haskell",
+  "text/x-lisp",
+  "text/x-scheme",
+  "text/x-tcl",
+  "text/x-pascal",
+  "text/x-asm",
+  "text/x-vbasic",
+  "text/x-diff",
+  "text/x-scss",
+  "text/x-sass",
+]);
+
+/**
+ * Signatures of binary formats that cannot be indexed
+ */
+const BINARY_SIGNATURES: { name: string; bytes: number[]; offset?: number }[] = [
+  { name: "PNG image", bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { name: "JPEG image", bytes: [0xff, 0xd8, 0xff] },
+  { name: "GIF image", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { name: "WebP/RIFF media", bytes: [0x52, 0x49, 0x46, 0x46] },
+  { name: "gzip archive", bytes: [0x1f, 0x8b] },
+  { name: "7z archive", bytes: [0x37, 0x7a, 0xbc, 0xaf] },
+  { name: "RAR archive", bytes: [0x52, 0x61, 0x72, 0x21] },
+  { name: "ELF executable", bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { name: "Mach-O executable", bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { name: "WebAssembly module", bytes: [0x00, 0x61, 0x73, 0x6d] },
+  {
+    name: "SQLite database",
+    // "SQLite format 3\0"
+    bytes: [
+      0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66, 0x6f, 0x72, 0x6d, 0x61,
+      0x74, 0x20, 0x33, 0x00,
+    ],
+  },
+  { name: "MP4/QuickTime media", bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+];
+
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46, 0x2d]; // %PDF-
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04]; // PK\x03\x04
+const OLE2_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+function startsWith(head: Uint8Array, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, index) => head[offset + index] === byte);
+}
+
+/**
+ * Heuristically decide whether bytes are UTF-8 text
+ */
+function looksLikeText(head: Uint8Array, truncated: boolean): boolean {
+  if (head.includes(0)) {
+    return false;
+  }
+
+  // A multi-byte sequence may be cut off at the end of the sniffed head
+  let end = head.length;
+  if (truncated) {
+    let back = 0;
+    while (back < 3 && end - back > 0 && ((head[end - back - 1] ?? 0) & 0xc0) === 0x80) {
+      back++;
+    }
+    if (end - back > 0 && ((head[end - back - 1] ?? 0) & 0xc0) === 0xc0) {
+      end -= back + 1;
+    }
+  }
+
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(head.subarray(0, end));
+  } catch (_error) {
+    return false;
+  }
+
+  let controlChars = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x20 && char !== "\n" && char !== "\r" && char !== "\t" && char !== "\f") {
+      controlChars++;
+    }
+  }
+
+  return text.length === 0 || controlChars / text.length <= MAX_CONTROL_CHAR_RATIO;
+}
+
+/**
+ * Identify the document type inside a zip container (OOXML)
+ */
+function detectZipDocument(head: Uint8Array, ext: string): string | undefined {
+  if (ext in OOXML_MIME_TYPES) {
+    return OOXML_MIME_TYPES[ext as keyof typeof OOXML_MIME_TYPES];
+  }
+
+  // OOXML packages list their part folders near the start of the archive
+  const content = new TextDecoder("latin1").decode(head);
+  if (content.includes("word/")) {
+    return OOXML_MIME_TYPES.docx;
+  }
+  if (content.includes("xl/")) {
+    return OOXML_MIME_TYPES.xlsx;
+  }
+  if (content.includes("ppt/")) {
+    return OOXML_MIME_TYPES.pptx;
+  }
+  if (ext === "odt" && content.includes("application/vnd.oasis.opendocument.text")) {
+    return "application/vnd.oasis.opendocument.text";
+  }
+  return undefined;
+}
+
+/**
+ * Decode a whole file as UTF-8 text
+ * Decided from the bytes alone, so a declared MIME type cannot hide text content
+ * @returns The text, or undefined for binary content (NUL bytes or invalid UTF-8)
+ */
+export function decodeUtf8Text(bytes: Uint8Array): string | undefined {
+  if (bytes.includes(0)) {
+    return undefined;
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch (_error) {
+    return undefined;
+  }
+}
+
+/**
+ * Detect the MIME type of a file from its content and name
+ */
+export async function detectMimeType(filePath: string): Promise<MimeDetection> {
+  const handle = await open(filePath, "r");
+  let head: Uint8Array;
+  let truncated: boolean;
+  try {
+    const buffer = new Uint8Array(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    head = buffer.subarray(0, bytesRead);
+    truncated = bytesRead === SNIFF_BYTES;
+  } finally {
+    await handle.close();
+  }
+
+  const ext = extname(basename(filePath)).slice(1).toLowerCase();
+
+  // 1. Magic bytes
+  if (startsWith(head, PDF_SIGNATURE)) {
+    return { supported: true, mimeType: "application/pdf", source: "magic" };
+  }
+
+  if (startsWith(head, ZIP_SIGNATURE)) {
+    const mimeType = detectZipDocument(head, ext);
+    return mimeType
+      ? { supported: true, mimeType, source: "magic" }
+      : {
+          supported: false,
+          reason: "zip archive that is not a Word, Excel, PowerPoint or OpenDocument file",
+        };
+  }
+
+  if (startsWith(head, OLE2_SIGNATURE)) {
+    const mimeType = OLE2_MIME_TYPES[ext];
+    return mimeType
+      ? { supported: true, mimeType, source: "magic" }
+      : {
+          supported: false,
+          reason: "legacy Office/OLE2 file without a .doc, .xls or .ppt extension",
+        };
+  }
+
+  const binary = BINARY_SIGNATURES.find((signature) =>
+    startsWith(head, signature.bytes, signature.offset),
+  );
+  if (binary) {
+    return { supported: false, reason: `binary file (${binary.name})` };
+  }
+
+  // 2 + 3. Everything else must be text; the extension only refines the type
+  // (extensionless files such as Dockerfile or LICENSE end up as text/plain)
+  if (!looksLikeText(head, truncated)) {
+    return {
+      supported: false,
+      reason: "binary file (content is not UTF-8 text)",
+    };
+  }
+
+  const extensionMimeType = EXTENSION_MIME_TYPES[ext];
+
+  if (extensionMimeType && SUPPORTED_MIME_TYPES.has(extensionMimeType)) {
+    return { supported: true, mimeType: extensionMimeType, source: "extension" };
+  }
+
+  // Text in a format File Search does not index natively: safe to send as plain text
+  return { supported: true, mimeType: "text/plain", source: "content" };
+}
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ResponsePager, paginate, paginateRemote } from "./pagination.js";
+
+const INVALID_CURSOR = /^Invalid cursor/;
+
+function cursorOf(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("paginate", () => {
+  const items = ["a", "b", "c", "d", "e"];
+
+  it("walks the list with opaque cursors", () => {
+    const first = paginate(items, { pageSize: 2 }, 10);
+    expect(first.items).toEqual(["a", "b"]);
+    expect(first.total).toBe(5);
+
+    const second = paginate(items, { pageSize: 2, cursor: first.nextCursor }, 10);
+    expect(second.items).toEqual(["c", "d"]);
+
+    const last = paginate(items, { pageSize: 2, cursor: second.nextCursor }, 10);
+    expect(last.items).toEqual(["e"]);
+    expect(last.nextCursor).toBeUndefined();
+  });
+
+  it("uses the default page size", () => {
+    expect(paginate(items, {}, 3).items).toEqual(["a", "b", "c"]);
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(() => paginate(items, { cursor: "not a cursor" }, 2)).toThrow(INVALID_CURSOR);
+    expect(() => paginate(items, { cursor: cursorOf({ offset: -1 }) }, 2)).toThrow(
+      INVALID_CURSOR,
+    );
+    expect(() => paginate(items, { cursor: cursorOf({ offset: 1.5 }) }, 2)).toThrow(
+      INVALID_CURSOR,
+    );
+  });
+});
+
+describe("paginateRemote", () => {
+  it("wraps API page tokens in cursors and passes them back", async () => {
+    const fetchPage = vi.fn((_pageSize: number, pageToken: string | undefined) =>
+      Promise.resolve(
+        pageToken === undefined
+          ? { items: [1, 2], nextPageToken: "token-2" }
+          : { items: [3] },
+      ),
+    );
+
+    const first = await paginateRemote({}, 2, "stores/a", fetchPage);
+    expect(first.items).toEqual([1, 2]);
+    expect(first.nextCursor).not.toContain("token-2");
+
+    const second = await paginateRemote(
+      { pageSize: 5, cursor: first.nextCursor },
+      2,
+      "stores/a",
+      fetchPage,
+    );
+    expect(second).toEqual({ items: [3], nextCursor: undefined });
+    expect(fetchPage.mock.calls).toEqual([
+      [2, undefined],
+      [5, "token-2"],
+    ]);
+  });
+
+  it("rejects raw page tokens and cursors from other list tools", async () => {
+    const fetchPage = vi.fn(() => Promise.resolve({ items: [] }));
+
+    await expect(paginateRemote({ cursor: "token-2" }, 2, "stores/a", fetchPage)).rejects.toThrow(
+      INVALID_CURSOR,
+    );
+    await expect(
+      paginateRemote({ cursor: cursorOf({ offset: 2 }) }, 2, "stores/a", fetchPage),
+    ).rejects.toThrow(INVALID_CURSOR);
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it("rejects cursors issued for another scope", async () => {
+    const fetchPage = vi.fn(() => Promise.resolve({ items: [] }));
+    const cursor = cursorOf({ pageToken: "token-2", scope: "stores/a" });
+
+    await expect(paginateRemote({ cursor }, 2, "stores/b", fetchPage)).rejects.toThrow(
+      /Cursor was issued for stores\/a, not stores\/b/,
+    );
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+});
+
+describe("ResponsePager", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function cursorIn(page: string): string {
+    const cursor = /cursor "([^"]+)"/.exec(page)?.[1];
+    if (!cursor) {
+      throw new Error(`No cursor in page: ${page}`);
+    }
+    return cursor;
+  }
+
+  it("returns responses within the budget unchanged", () => {
+    expect(new ResponsePager(1000).fit("short", undefined)).toBe("short");
+  });
+
+  it("splits oversized responses at line ends and serves the rest by cursor", () => {
+    const pager = new ResponsePager(350);
+    const text = Array.from({ length: 80 }, (_, index) => `line ${String(index)}`).join("\n");
+
+    const pages: string[] = [];
+    let page = pager.fit(text, "alice");
+    while (page.includes("[Response truncated")) {
+      pages.push(page.slice(0, page.lastIndexOf("\n[Response truncated")));
+      page = pager.next(cursorIn(page), "alice");
+    }
+    pages.push(page);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.join("")).toBe(text);
+    for (const part of pages.slice(0, -1)) {
+      expect(part.endsWith("\n")).toBe(true);
+    }
+  });
+
+  it("refuses cursors of other callers, unknown cursors and expired responses", () => {
+    vi.useFakeTimers();
+    const pager = new ResponsePager(310);
+    const cursor = cursorIn(pager.fit("x".repeat(400), "alice"));
+
+    expect(() => pager.next(cursor, "bob")).toThrow(/Unknown or expired cursor/);
+    expect(() => pager.next(cursorOf({ id: "missing", offset: 10 }), "alice")).toThrow(
+      /Unknown or expired cursor/,
+    );
+
+    vi.advanceTimersByTime(16 * 60 * 1000);
+    expect(() => pager.next(cursor, "alice")).toThrow(/Unknown or expired cursor/);
+  });
+});
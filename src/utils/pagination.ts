@@ -0,0 +1,236 @@
+/**
+ * Pagination of list results and oversized tool responses
+ */
+
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+
+/**
+ * Shared input fields for list-style tools
+ */
+export const paginationArgsShape = {
+  pageSize: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Maximum number of entries to return. Uses the server default if not provided.",
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe("Cursor returned as nextCursor by a previous call"),
+};
+
+type PaginationArgs = {
+  pageSize?: number | undefined;
+  cursor?: string | undefined;
+};
+
+type Page<T> = {
+  items: T[];
+  total: number;
+  nextCursor?: string | undefined;
+};
+
+function encodeCursor(value: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+    if (typeof value === "object" && value !== null) {
+      return value as Record<string, unknown>;
+    }
+  } catch (_error) {
+    // Reported below
+  }
+  throw new Error("Invalid cursor. Pass nextCursor from a previous call unchanged.");
+}
+
+/**
+ * Return one page of an in-memory list
+ * The cursor is an opaque offset into the list
+ */
+export function paginate<T>(
+  items: T[],
+  args: PaginationArgs,
+  defaultPageSize: number,
+): Page<T> {
+  let offset = 0;
+  if (args.cursor) {
+    const { offset: decoded } = decodeCursor(args.cursor);
+    if (typeof decoded !== "number" || !Number.isInteger(decoded) || decoded < 0) {
+      throw new Error("Invalid cursor. Pass nextCursor from a previous call unchanged.");
+    }
+    offset = decoded;
+  }
+
+  const end = offset + (args.pageSize ?? defaultPageSize);
+  return {
+    items: items.slice(offset, end),
+    total: items.length,
+    nextCursor: end < items.length ? encodeCursor({ offset: end }) : undefined,
+  };
+}
+
+/**
+ * Return one page of a list paginated by the remote API
+ * The API page token is wrapped in the same opaque cursor format as
+ * paginate, so every list tool accepts and validates cursors the same way
+ * @param scope - What is being listed (e.g. the store name); a cursor is only
+ * accepted for the scope it was issued for
+ */
+export async function paginateRemote<T>(
+  args: PaginationArgs,
+  defaultPageSize: number,
+  scope: string,
+  fetchPage: (
+    pageSize: number,
+    pageToken: string | undefined,
+  ) => Promise<{ items: T[]; nextPageToken?: string | undefined }>,
+): Promise<Omit<Page<T>, "total">> {
+  let pageToken: string | undefined;
+  if (args.cursor) {
+    const { pageToken: decoded, scope: cursorScope } = decodeCursor(args.cursor);
+    if (typeof decoded !== "string" || decoded === "") {
+      throw new Error("Invalid cursor. Pass nextCursor from a previous call unchanged.");
+    }
+    if (cursorScope !== scope) {
+      throw new Error(
+        `Cursor was issued for ${typeof cursorScope === "string" ? cursorScope : "another list"}, not ${scope}. Pass nextCursor with the same arguments as the call that returned it.`,
+      );
+    }
+    pageToken = decoded;
+  }
+
+  const page = await fetchPage(args.pageSize ?? defaultPageSize, pageToken);
+  return {
+    items: page.items,
+    nextCursor: page.nextPageToken
+      ? encodeCursor({ pageToken: page.nextPageToken, scope })
+      : undefined,
+  };
+}
+
+type StoredResponse = {
+  text: string;
+  // Caller that received the first page; other callers cannot continue it
+  owner: string | undefined;
+  expiresAt: number;
+};
+
+/**
+ * How long the remainder of a truncated response can be fetched
+ */
+const RESPONSE_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Maximum number of truncated responses kept; the oldest is dropped first
+ */
+const MAX_STORED_RESPONSES = 100;
+
+/**
+ * Room left in each page for the truncation marker
+ */
+const MARKER_RESERVE = 300;
+
+/**
+ * Splits tool responses larger than the size budget into pages
+ * The first page is returned with a continuation cursor; the rest is kept
+ * in memory for get_next_page
+ */
+export class ResponsePager {
+  private responses = new Map<string, StoredResponse>();
+
+  constructor(private readonly maxResponseSize: number) {}
+
+  /**
+   * Fit a response into the size budget
+   * @param owner - Authenticated caller, if any
+   * @returns The text unchanged, or its first page followed by a truncation marker
+   */
+  fit(text: string, owner: string | undefined): string {
+    if (text.length <= this.maxResponseSize) {
+      return text;
+    }
+
+    this.prune();
+    const id = randomUUID();
+    this.responses.set(id, {
+      text,
+      owner,
+      expiresAt: Date.now() + RESPONSE_TTL_MS,
+    });
+    return this.pageAt(id, text, 0);
+  }
+
+  /**
+   * Return the page a cursor points to
+   * @throws Error if the cursor is invalid, expired or belongs to another caller
+   */
+  next(cursor: string, owner: string | undefined): string {
+    const { id, offset } = decodeCursor(cursor);
+    const response = typeof id === "string" ? this.responses.get(id) : undefined;
+
+    if (
+      !response ||
+      response.owner !== owner ||
+      response.expiresAt < Date.now() ||
+      typeof offset !== "number" ||
+      !Number.isInteger(offset) ||
+      offset < 0 ||
+      offset >= response.text.length
+    ) {
+      throw new Error(
+        "Unknown or expired cursor. Call the original tool again to get a fresh result.",
+      );
+    }
+
+    return this.pageAt(id as string, response.text, offset);
+  }
+
+  /**
+   * Slice a page starting at offset, preferring to break at a line end,
+   * and append a marker with the cursor for the rest
+   */
+  private pageAt(id: string, text: string, offset: number): string {
+    const budget = Math.max(this.maxResponseSize - MARKER_RESERVE, 1);
+    if (text.length - offset <= budget) {
+      // Kept until expiry so the last page can be fetched again
+      return text.slice(offset);
+    }
+
+    let end = offset + budget;
+    const lineEnd = text.lastIndexOf("\n", end);
+    if (lineEnd > offset + budget / 2) {
+      end = lineEnd + 1;
+    }
+
+    const cursor = encodeCursor({ id, offset: end });
+    return `${text.slice(offset, end)}\n[Response truncated: characters ${String(offset + 1)}-${String(end)} of ${String(text.length)} shown. Call get_next_page with cursor "${cursor}" for the rest.]`;
+  }
+
+  /**
+   * Drop expired responses and keep the store bounded
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, response] of this.responses) {
+      if (response.expiresAt < now) {
+        this.responses.delete(id);
+      }
+    }
+    while (this.responses.size >= MAX_STORED_RESPONSES) {
+      const oldest = this.responses.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.responses.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimiter } from "./rate-limit.js";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows a burst, then reports the wait until the next token", () => {
+    const limiter = new RateLimiter(() => ({ requestsPerMinute: 60, burst: 2 }));
+
+    expect(limiter.consume("query")).toBe(0);
+    expect(limiter.consume("query")).toBe(0);
+    expect(limiter.consume("query")).toBe(1000);
+
+    vi.advanceTimersByTime(400);
+    expect(limiter.consume("query")).toBe(600);
+  });
+
+  it("refills tokens over time up to the burst size", () => {
+    const limiter = new RateLimiter(() => ({ requestsPerMinute: 60, burst: 2 }));
+    limiter.consume("query");
+    limiter.consume("query");
+
+    vi.advanceTimersByTime(60_000);
+
+    expect(limiter.consume("query")).toBe(0);
+    expect(limiter.consume("query")).toBe(0);
+    expect(limiter.consume("query")).toBeGreaterThan(0);
+  });
+
+  it("keeps a separate bucket per key", () => {
+    const limiter = new RateLimiter(() => ({ requestsPerMinute: 1, burst: 1 }));
+
+    expect(limiter.consume("alice")).toBe(0);
+    expect(limiter.consume("alice")).toBe(60_000);
+    expect(limiter.consume("bob")).toBe(0);
+  });
+
+  it("never limits keys without a rule", () => {
+    const limiter = new RateLimiter((key) =>
+      key === "upload_file" ? { requestsPerMinute: 1, burst: 1 } : undefined,
+    );
+
+    for (let i = 0; i < 5; i++) {
+      expect(limiter.consume("query")).toBe(0);
+    }
+    expect(limiter.consume("upload_file")).toBe(0);
+    expect(limiter.consume("upload_file")).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Token bucket rate limiting
+ */
+
+import type { RateLimitRule } from "../types/index.js";
+
+/**
+ * Number of idle buckets kept before full buckets are pruned
+ */
+const MAX_IDLE_BUCKETS = 1000;
+
+/**
+ * Token bucket holding up to `burst` tokens, refilled continuously at
+ * `requestsPerMinute`
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly rule: RateLimitRule) {
+    this.tokens = rule.burst;
+  }
+
+  /**
+   * Take one token
+   * @returns 0 if a token was taken, otherwise milliseconds until one is available
+   */
+  take(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) * 60000) / this.rule.requestsPerMinute);
+  }
+
+  /**
+   * Whether the bucket is full, i.e. carries no state worth keeping
+   */
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.rule.burst;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.rule.burst,
+      this.tokens + ((now - this.updatedAt) * this.rule.requestsPerMinute) / 60000,
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Set of token buckets addressed by key (e.g. tool name or caller id)
+ */
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  /**
+   * @param ruleFor - Rule for a key, or undefined if the key is not limited
+   */
+  constructor(
+    private readonly ruleFor: (key: string) => RateLimitRule | undefined,
+  ) {}
+
+  /**
+   * Consume one request for a key
+   * @returns 0 if allowed, otherwise milliseconds until the next request is allowed
+   */
+  consume(key: string): number {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const rule = this.ruleFor(key);
+      if (!rule) {
+        return 0;
+      }
+      this.pruneIdleBuckets();
+      bucket = new TokenBucket(rule);
+      this.buckets.set(key, bucket);
+    }
+    return bucket.take();
+  }
+
+  private pruneIdleBuckets(): void {
+    if (this.buckets.size < MAX_IDLE_BUCKETS) {
+      return;
+    }
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isFull()) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
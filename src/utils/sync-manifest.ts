@@ -0,0 +1,116 @@
+/**
+ * Local manifest for incremental directory sync
+ *
+ * Maps each synced file's relative path to its content hash and the
+ * document it was uploaded as, so unchanged files can be skipped.
+ */
+
+import { createHash } from "node:crypto";
+import { constants, createReadStream } from "node:fs";
+import { readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { z } from "zod";
+
+/**
+ * Default manifest file name, created in the synced root directory
+ */
+export const DEFAULT_MANIFEST_FILE_NAME = ".gemini-rag-manifest.json";
+
+/**
+ * Temporary file a manifest is written to before it replaces the manifest
+ */
+export function manifestTemporaryPath(manifestPath: string): string {
+  return `${manifestPath}.tmp`;
+}
+
+const manifestSchema = z.object({
+  version: z.literal(1),
+  storeName: z.string(),
+  files: z.record(
+    z.object({
+      hash: z.string(),
+      documentName: z.string(),
+      sizeBytes: z.number(),
+      syncedAt: z.string(),
+    }),
+  ),
+});
+
+type SyncManifest = z.infer<typeof manifestSchema>;
+
+/**
+ * Load a manifest, or return an empty one if the file does not exist
+ * Symbolic links are never followed
+ * @param storeName - Store the manifest must belong to (undefined if the store does not exist yet)
+ * @throws Error if the manifest is malformed, a symbolic link or belongs to another store
+ */
+export async function loadManifest(
+  manifestPath: string,
+  storeName: string | undefined,
+): Promise<SyncManifest> {
+  let content: string;
+  try {
+    content = await readFile(manifestPath, {
+      encoding: "utf8",
+      flag: constants.O_RDONLY | constants.O_NOFOLLOW,
+    });
+  } catch (error) {
+    const { code } = error as NodeJS.ErrnoException;
+    if (code === "ENOENT") {
+      return { version: 1, storeName: storeName ?? "", files: {} };
+    }
+    if (code === "ELOOP") {
+      throw new Error(`Sync manifest ${manifestPath} is a symbolic link`);
+    }
+    throw error;
+  }
+
+  const parsed = manifestSchema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid sync manifest ${manifestPath}: ${parsed.error.issues[0]?.message ?? "malformed manifest"}`,
+    );
+  }
+
+  if (parsed.data.storeName !== storeName) {
+    throw new Error(
+      `Sync manifest ${manifestPath} belongs to store ${parsed.data.storeName}, not ${storeName ?? "a store that does not exist yet"}. Use a different manifestPath for each store.`,
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Write a manifest atomically (write to a temporary file, then rename)
+ * The temporary file is always created fresh, so an existing file or
+ * symbolic link at its path is never written through
+ */
+export async function saveManifest(
+  manifestPath: string,
+  manifest: SyncManifest,
+): Promise<void> {
+  const temporaryPath = manifestTemporaryPath(manifestPath);
+  const content = `${JSON.stringify(manifest, null, 2)}\n`;
+  try {
+    await writeFile(temporaryPath, content, { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+      throw error;
+    }
+    // Left over from an interrupted sync; unlink removes a link, not its target
+    await unlink(temporaryPath);
+    await writeFile(temporaryPath, content, { flag: "wx" });
+  }
+  await rename(temporaryPath, manifestPath);
+}
+
+/**
+ * Compute the SHA-256 hash of a file's content
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
@@ -0,0 +1,39 @@
+/**
+ * Timing utilities for polling and retries
+ */
+
+/**
+ * Sleep for the given duration, rejecting early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason as Error);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason as Error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Exponential backoff delay with jitter
+ * Returns a delay in [cap/2, cap] where cap = min(maxMs, initialMs * 2^attempt)
+ */
+export function backoffDelay(
+  attempt: number,
+  initialMs: number,
+  maxMs: number,
+): number {
+  const cap = Math.min(maxMs, initialMs * 2 ** attempt);
+  return cap / 2 + Math.random() * (cap / 2);
+}